@@ -1,15 +1,33 @@
+import { lintCommitMessage } from './commitlint';
 import { resolveBaseUrl } from './config';
+import { buildLintRepairPrompt } from './prompt';
 import {
   AiDebugSnapshot,
+  AiRequestAttempt,
   ExtensionConfig,
   GenerateCommitResult,
   PromptPayload,
-  Provider
+  Provider,
+  TicketPlacement
 } from './types';
 
 type JsonValue = Record<string, unknown>;
 
+export type PartialTextHandler = (partialText: string) => void;
+
+export interface GenerateCommitOptions {
+  onPartialText?: PartialTextHandler;
+  signal?: AbortSignal;
+  /** Choices to request in one call; only honored by providers with native multi-choice support. */
+  candidateCount?: number;
+}
+
+type StreamFraming = 'sse' | 'ndjson';
+
 const MAX_DEBUG_RESPONSE_LENGTH = 20_000;
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+const MAX_RETRY_DELAY_MS = 30_000;
 
 export class AiRequestError extends Error {
   readonly debug: AiDebugSnapshot;
@@ -21,29 +39,218 @@ export class AiRequestError extends Error {
   }
 }
 
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Generates a commit message with the configured provider, then walks `fallbackProviders` in order
+ * whenever a provider fails or returns text that cannot be turned into a commit message.
+ */
 export async function generateCommitText(
   prompt: PromptPayload,
-  config: ExtensionConfig
+  config: ExtensionConfig,
+  options: GenerateCommitOptions = {}
 ): Promise<GenerateCommitResult> {
+  const chain: ExtensionConfig[] = [
+    config,
+    ...config.fallbackProviders.map(profile => ({ ...config, ...profile }))
+  ];
+  const failures: AiDebugSnapshot[] = [];
+
+  for (let index = 0; index < chain.length; index += 1) {
+    try {
+      const result = await generateWithProvider(prompt, chain[index], options);
+      result.usedFallback = index > 0;
+      if (failures.length > 0) {
+        result.debug.previousProviderAttempts = failures;
+      }
+      return result;
+    } catch (error) {
+      if (options.signal?.aborted || chain.length === 1) {
+        throw error;
+      }
+      failures.push(toFailedAttempt(error, chain[index]));
+    }
+  }
+
+  const last = failures[failures.length - 1];
+  last.previousProviderAttempts = failures.slice(0, -1);
+  const summary = failures.map(attempt => `${attempt.provider}: ${attempt.error}`).join('; ');
+  throw new AiRequestError(`All providers failed. ${summary}`, last);
+}
+
+async function generateWithProvider(
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<GenerateCommitResult> {
+  if (config.candidateCount <= 1) {
+    const { text, debug } = await requestCompletion(prompt, config, options);
+    return repairLintViolations(finalizeCommit(text, debug, prompt, config), prompt, config, options);
+  }
+
+  // Candidates are picked by the user afterwards, so nothing is streamed into the input box.
+  const requestOptions: GenerateCommitOptions = { signal: options.signal };
+
+  if (supportsNativeCandidates(config)) {
+    const { text, alternatives, debug } = await requestCompletion(prompt, config, {
+      ...requestOptions,
+      candidateCount: config.candidateCount
+    });
+    return selectLintedCandidates(finalizeCandidates(alternatives ?? [text], debug, prompt, config), prompt, config, options);
+  }
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: config.candidateCount }, () => requestCompletion(prompt, config, requestOptions))
+  );
+  const fulfilled = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (fulfilled.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return selectLintedCandidates(
+    finalizeCandidates(
+      fulfilled.map(completion => completion.text),
+      fulfilled[0].debug,
+      prompt,
+      config
+    ),
+    prompt,
+    config,
+    options
+  );
+}
+
+/**
+ * Checks the message against the repository's commitlint rules and, while it fails, sends the
+ * violations back as a follow-up turn, up to `commitlintMaxRepairs` times. A message that still
+ * fails, or whose repair request failed, is returned anyway; the remaining violations are left in
+ * `debug.commitlint`.
+ */
+async function repairLintViolations(
+  result: GenerateCommitResult,
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<GenerateCommitResult> {
+  const rules = prompt.commitlint;
+  if (!rules) {
+    return result;
+  }
+
+  const initialViolations = lintCommitMessage(result.commitMessage, rules, prompt.ticket);
+  let violations = initialViolations;
+  let current = result;
+  let repairs = 0;
+  let repairError: string | undefined;
+
+  while (violations.length > 0 && repairs < config.commitlintMaxRepairs) {
+    repairs += 1;
+    const repairPrompt = buildLintRepairPrompt(prompt, current.commitMessage, violations);
+    let completion: { text: string; debug: AiDebugSnapshot };
+    try {
+      completion = await requestCompletion(repairPrompt, config, { signal: options.signal });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      // A failed repair request keeps the message generated so far instead of failing the provider.
+      repairError = error instanceof Error ? error.message : String(error);
+      break;
+    }
+
+    try {
+      current = finalizeCommit(completion.text, completion.debug, repairPrompt, config);
+    } catch {
+      // An unusable repair answer keeps the previous message.
+      continue;
+    }
+    violations = lintCommitMessage(current.commitMessage, rules, prompt.ticket);
+  }
+
+  current.debug.commitlint = { source: rules.source, initialViolations, repairs, violations, repairError };
+  return current;
+}
+
+/** Keeps only the candidates that pass commitlint; when none does, the first one is repaired instead. */
+async function selectLintedCandidates(
+  result: GenerateCommitResult,
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<GenerateCommitResult> {
+  const rules = prompt.commitlint;
+  if (!rules) {
+    return result;
+  }
+
+  const passing = result.candidates.filter(candidate => lintCommitMessage(candidate, rules, prompt.ticket).length === 0);
+  if (passing.length === 0) {
+    return repairLintViolations({ ...result, candidates: [result.commitMessage] }, prompt, config, options);
+  }
+
+  result.commitMessage = passing[0];
+  result.candidates = passing;
+  result.debug.candidates = passing;
+  result.debug.commitlint = { source: rules.source, initialViolations: [], repairs: 0, violations: [] };
+  return result;
+}
+
+/** Providers whose API returns several choices for one request (`n`, or `candidateCount` for Gemini). */
+function supportsNativeCandidates(config: ExtensionConfig): boolean {
+  return (
+    config.provider === 'openai' || config.provider === 'azure' || config.provider === 'kimi' || config.provider === 'gemini'
+  );
+}
+
+/**
+ * Sends one prompt to the configured provider and returns the raw model text, without
+ * commit-message normalization or provider fallback. When several candidates were requested
+ * natively, `alternatives` holds every returned choice.
+ */
+export async function requestCompletion(
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions = {}
+): Promise<{ text: string; alternatives?: string[]; debug: AiDebugSnapshot }> {
   ensureConfig(config);
 
   if (config.provider === 'gemini') {
-    const { text, debug } = await requestGemini(prompt, config);
-    return finalizeCommit(text, debug);
+    return requestGemini(prompt, config, options);
+  }
+
+  if (config.provider === 'ollama' && !config.customRequestPath) {
+    return requestOllama(prompt, config, options);
   }
 
-  const { text, debug } = await requestOpenAiCompatible(prompt, config);
-  return finalizeCommit(text, debug);
+  if (config.provider === 'anthropic') {
+    return requestAnthropic(prompt, config, options);
+  }
+
+  return requestOpenAiCompatible(prompt, config, options);
 }
 
-function finalizeCommit(rawText: string, debug: AiDebugSnapshot): GenerateCommitResult {
+function finalizeCommit(
+  rawText: string,
+  debug: AiDebugSnapshot,
+  prompt: PromptPayload,
+  config: ExtensionConfig
+): GenerateCommitResult {
   debug.extractedText = rawText;
 
   try {
-    const normalized = sanitizeCommitText(rawText);
+    const normalized = normalizeCommitMessage(rawText, prompt, config);
     debug.normalizedCommitMessage = normalized;
     return {
       commitMessage: normalized,
+      candidates: [normalized],
+      provider: debug.provider,
+      model: debug.model,
+      usedFallback: false,
       debug
     };
   } catch (error) {
@@ -53,19 +260,80 @@ function finalizeCommit(rawText: string, debug: AiDebugSnapshot): GenerateCommit
   }
 }
 
+/**
+ * Sanitizes every candidate and drops the ones that fail or read the same once whitespace and
+ * case are ignored. Fails like a single request when no candidate survives.
+ */
+function finalizeCandidates(
+  rawTexts: string[],
+  debug: AiDebugSnapshot,
+  prompt: PromptPayload,
+  config: ExtensionConfig
+): GenerateCommitResult {
+  const candidates: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rawText of rawTexts) {
+    let normalized: string;
+    try {
+      normalized = normalizeCommitMessage(rawText, prompt, config);
+    } catch {
+      continue;
+    }
+
+    const key = normalized.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      candidates.push(normalized);
+    }
+  }
+
+  if (candidates.length === 0) {
+    return finalizeCommit(rawTexts[0] ?? '', debug, prompt, config);
+  }
+
+  debug.extractedText = rawTexts.join('\n\n---\n\n');
+  debug.normalizedCommitMessage = candidates[0];
+  debug.candidates = candidates;
+  return {
+    commitMessage: candidates[0],
+    candidates,
+    provider: debug.provider,
+    model: debug.model,
+    usedFallback: false,
+    debug
+  };
+}
+
+function toFailedAttempt(error: unknown, config: ExtensionConfig): AiDebugSnapshot {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof AiRequestError) {
+    error.debug.error ??= message;
+    return error.debug;
+  }
+
+  // Configuration errors fail before any request is built.
+  const debug = createDebugSnapshot(config.provider, config.model, resolveBaseUrl(config), {}, {});
+  debug.error = message;
+  return debug;
+}
+
 function ensureConfig(config: ExtensionConfig): void {
   if (!config.model) {
     throw new Error('Model is empty. Configure gitgathom.model.');
   }
 
   const hasAuthHeader =
-    hasHeader(config.extraHeaders, 'authorization') || hasHeader(config.extraHeaders, 'x-api-key');
+    hasHeader(config.extraHeaders, 'authorization') ||
+    hasHeader(config.extraHeaders, 'x-api-key') ||
+    hasHeader(config.extraHeaders, 'api-key');
 
   if (config.provider === 'gemini' && !config.apiKey) {
     throw new Error('Gemini requires API key. Configure gitgathom.apiKey or GEMINI_API_KEY.');
   }
 
-  if (config.provider !== 'gemini' && !config.apiKey && !hasAuthHeader) {
+  if (config.provider !== 'gemini' && config.provider !== 'ollama' && !config.apiKey && !hasAuthHeader) {
     throw new Error(
       'No API credential found. Configure gitgathom.apiKey or provide Authorization/X-Api-Key in gitgathom.extraHeaders.'
     );
@@ -74,33 +342,53 @@ function ensureConfig(config: ExtensionConfig): void {
   if (config.provider === 'custom' && !resolveBaseUrl(config)) {
     throw new Error('Custom provider requires gitgathom.baseUrl.');
   }
+
+  if (config.provider === 'azure') {
+    if (!resolveBaseUrl(config)) {
+      throw new Error('Azure provider requires gitgathom.baseUrl (resource endpoint).');
+    }
+    if (!config.azureDeployment && !isAzureDeploymentUrl(resolveBaseUrl(config))) {
+      throw new Error('Azure provider requires gitgathom.azureDeployment.');
+    }
+  }
 }
 
 async function requestOpenAiCompatible(
   prompt: PromptPayload,
-  config: ExtensionConfig
-): Promise<{ text: string; debug: AiDebugSnapshot }> {
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<{ text: string; alternatives?: string[]; debug: AiDebugSnapshot }> {
   const baseUrl = resolveBaseUrl(config);
   if (!baseUrl) {
     throw new Error('Missing base URL for OpenAI-compatible provider.');
   }
 
-  const endpoint = createOpenAiEndpoint(baseUrl, config.customRequestPath);
+  const isAzure = config.provider === 'azure';
+  const endpoint = isAzure
+    ? createAzureEndpoint(baseUrl, config.azureDeployment, config.azureApiVersion)
+    : createOpenAiEndpoint(baseUrl, config.customRequestPath);
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     ...config.extraHeaders
   };
 
-  if (config.apiKey && !hasHeader(headers, 'authorization')) {
+  if (isAzure) {
+    // Azure authenticates with an api-key header; an Entra ID bearer token may be supplied via extraHeaders.
+    if (config.apiKey && !hasHeader(headers, 'api-key') && !hasHeader(headers, 'authorization')) {
+      headers['api-key'] = config.apiKey;
+    }
+  } else if (config.apiKey && !hasHeader(headers, 'authorization')) {
     headers.Authorization = `Bearer ${config.apiKey}`;
   }
 
+  // Azure routes by deployment name and takes no model field.
   const body: Record<string, unknown> = {
-    model: config.model,
+    ...(isAzure ? {} : { model: config.model }),
     messages: [
       { role: 'system', content: prompt.systemPrompt },
-      { role: 'user', content: prompt.userPrompt }
+      { role: 'user', content: prompt.userPrompt },
+      ...(prompt.followUpTurns ?? [])
     ],
     temperature: config.temperature
   };
@@ -109,65 +397,88 @@ async function requestOpenAiCompatible(
     body.max_tokens = config.maxTokens;
   }
 
+  const candidateCount = supportsNativeCandidates(config) ? options.candidateCount ?? 1 : 1;
+  if (candidateCount > 1) {
+    body.n = candidateCount;
+  } else if (config.streamResponse) {
+    body.stream = true;
+  }
+
   const debug = createDebugSnapshot(config.provider, config.model, endpoint, headers, body);
 
   try {
-    const response = await fetchWithTimeout(
+    const response = await fetchWithRetry(
       endpoint,
       {
         method: 'POST',
         headers,
         body: JSON.stringify(body)
       },
-      config.requestTimeoutMs
+      config,
+      debug,
+      options.signal
     );
 
-    const responseText = await captureResponseDebug(response, debug);
+    if (response.ok && isEventStream(response)) {
+      const text = await readStreamedText(response, debug, extractOpenAiDelta, config.requestTimeoutMs, options);
+      if (!text.trim()) {
+        throw new AiRequestError('Provider returned no message content.', debug);
+      }
+      return { text, debug };
+    }
+
+    const responseText = await captureResponseDebug(response, debug, config.requestTimeoutMs);
     if (!response.ok) {
       throw new AiRequestError(`HTTP ${response.status}: ${truncate(responseText, 600)}`, debug);
     }
 
     const payload = parseJsonPayload(responseText, debug);
-    const choices = payload.choices as Array<Record<string, unknown>> | undefined;
-    const firstChoice = choices?.[0];
-    const message = firstChoice?.message as Record<string, unknown> | undefined;
-    const content = message?.content;
-
-    if (typeof content === 'string') {
-      return { text: content, debug };
-    }
-
-    if (Array.isArray(content)) {
-      const text = content
-        .map(part =>
-          typeof part === 'object' && part && 'text' in part
-            ? String((part as Record<string, unknown>).text ?? '')
-            : ''
-        )
-        .join('\n')
-        .trim();
-
-      if (text) {
-        return { text, debug };
-      }
+    const choices = (payload.choices as Array<Record<string, unknown>> | undefined) ?? [];
+    const texts = choices.map(extractOpenAiChoiceText).filter(text => text.trim());
+
+    if (texts.length === 0) {
+      throw new AiRequestError('Provider returned no message content.', debug);
     }
 
-    throw new AiRequestError('Provider returned no message content.', debug);
+    return candidateCount > 1 ? { text: texts[0], alternatives: texts, debug } : { text: texts[0], debug };
   } catch (error) {
     throw asAiRequestError(error, debug);
   }
 }
 
+function extractOpenAiChoiceText(choice: Record<string, unknown>): string {
+  const message = choice.message as Record<string, unknown> | undefined;
+  const content = message?.content;
+
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content)) {
+    return content
+      .map(part =>
+        typeof part === 'object' && part && 'text' in part ? String((part as Record<string, unknown>).text ?? '') : ''
+      )
+      .join('\n')
+      .trim();
+  }
+
+  return '';
+}
+
 async function requestGemini(
   prompt: PromptPayload,
-  config: ExtensionConfig
-): Promise<{ text: string; debug: AiDebugSnapshot }> {
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<{ text: string; alternatives?: string[]; debug: AiDebugSnapshot }> {
   const baseUrl = resolveBaseUrl(config);
   if (!baseUrl) {
     throw new Error('Missing base URL for Gemini.');
   }
 
-  const endpoint = `${baseUrl}/v1beta/models/${encodeURIComponent(config.model)}:generateContent?key=${encodeURIComponent(config.apiKey)}`;
+  const candidateCount = options.candidateCount ?? 1;
+  const method = config.streamResponse && candidateCount <= 1 ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  const endpoint = `${baseUrl}/v1beta/models/${encodeURIComponent(config.model)}:${method}key=${encodeURIComponent(config.apiKey)}`;
   const mergedPrompt = `${prompt.systemPrompt}\n\n${prompt.userPrompt}`;
 
   const headers: Record<string, string> = {
@@ -183,12 +494,21 @@ async function requestGemini(
     generationConfig.maxOutputTokens = config.maxTokens;
   }
 
+  if (candidateCount > 1) {
+    generationConfig.candidateCount = candidateCount;
+  }
+
   const body: Record<string, unknown> = {
     contents: [
       {
         role: 'user',
         parts: [{ text: mergedPrompt }]
-      }
+      },
+      // Gemini names the assistant role "model".
+      ...(prompt.followUpTurns ?? []).map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: turn.content }]
+      }))
     ],
     generationConfig
   };
@@ -196,33 +516,201 @@ async function requestGemini(
   const debug = createDebugSnapshot(config.provider, config.model, endpoint, headers, body);
 
   try {
-    const response = await fetchWithTimeout(
+    const response = await fetchWithRetry(
       endpoint,
       {
         method: 'POST',
         headers,
         body: JSON.stringify(body)
       },
-      config.requestTimeoutMs
+      config,
+      debug,
+      options.signal
     );
 
-    const responseText = await captureResponseDebug(response, debug);
+    if (response.ok && isEventStream(response)) {
+      const text = await readStreamedText(response, debug, extractGeminiDelta, config.requestTimeoutMs, options);
+      if (!text.trim()) {
+        throw new AiRequestError('Gemini returned no message content.', debug);
+      }
+      return { text, debug };
+    }
+
+    const responseText = await captureResponseDebug(response, debug, config.requestTimeoutMs);
     if (!response.ok) {
       throw new AiRequestError(`HTTP ${response.status}: ${truncate(responseText, 600)}`, debug);
     }
 
     const payload = parseJsonPayload(responseText, debug);
-    const candidates = payload.candidates as Array<Record<string, unknown>> | undefined;
-    const firstCandidate = candidates?.[0];
-    const content = firstCandidate?.content as Record<string, unknown> | undefined;
-    const parts = content?.parts as Array<Record<string, unknown>> | undefined;
-    const text = parts
-      ?.map(part => String(part.text ?? ''))
+    const candidates = (payload.candidates as unknown[] | undefined) ?? [];
+    const texts = candidates
+      .map((_, index) => extractGeminiParts(payload, index)?.join('\n').trim() ?? '')
+      .filter(text => text.length > 0);
+
+    if (texts.length === 0) {
+      throw new AiRequestError('Gemini returned no message content.', debug);
+    }
+
+    return candidateCount > 1 ? { text: texts[0], alternatives: texts, debug } : { text: texts[0], debug };
+  } catch (error) {
+    throw asAiRequestError(error, debug);
+  }
+}
+
+async function requestAnthropic(
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<{ text: string; debug: AiDebugSnapshot }> {
+  const baseUrl = resolveBaseUrl(config);
+  if (!baseUrl) {
+    throw new Error('Missing base URL for Anthropic.');
+  }
+
+  const endpoint = createAnthropicEndpoint(baseUrl);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'anthropic-version': ANTHROPIC_VERSION,
+    ...config.extraHeaders
+  };
+
+  if (config.apiKey && !hasHeader(headers, 'x-api-key')) {
+    headers['x-api-key'] = config.apiKey;
+  }
+
+  // The Messages API requires max_tokens and caps temperature at 1.
+  const body: Record<string, unknown> = {
+    model: config.model,
+    system: prompt.systemPrompt,
+    messages: [{ role: 'user', content: prompt.userPrompt }, ...(prompt.followUpTurns ?? [])],
+    max_tokens: config.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+    temperature: Math.min(1, config.temperature)
+  };
+
+  if (config.streamResponse) {
+    body.stream = true;
+  }
+
+  const debug = createDebugSnapshot(config.provider, config.model, endpoint, headers, body);
+
+  try {
+    const response = await fetchWithRetry(
+      endpoint,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      },
+      config,
+      debug,
+      options.signal
+    );
+
+    if (response.ok && isEventStream(response)) {
+      const text = await readStreamedText(response, debug, extractAnthropicDelta, config.requestTimeoutMs, options);
+      if (!text.trim()) {
+        throw new AiRequestError('Anthropic returned no message content.', debug);
+      }
+      return { text, debug };
+    }
+
+    const responseText = await captureResponseDebug(response, debug, config.requestTimeoutMs);
+    if (!response.ok) {
+      throw new AiRequestError(`HTTP ${response.status}: ${truncate(responseText, 600)}`, debug);
+    }
+
+    const payload = parseJsonPayload(responseText, debug);
+    const content = payload.content as Array<Record<string, unknown>> | undefined;
+    const text = content
+      ?.filter(block => block.type === 'text')
+      .map(block => String(block.text ?? ''))
       .join('\n')
       .trim();
 
     if (!text) {
-      throw new AiRequestError('Gemini returned no message content.', debug);
+      throw new AiRequestError('Anthropic returned no message content.', debug);
+    }
+
+    return { text, debug };
+  } catch (error) {
+    throw asAiRequestError(error, debug);
+  }
+}
+
+async function requestOllama(
+  prompt: PromptPayload,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions
+): Promise<{ text: string; debug: AiDebugSnapshot }> {
+  const baseUrl = resolveBaseUrl(config);
+  if (!baseUrl) {
+    throw new Error('Missing base URL for Ollama.');
+  }
+
+  const endpoint = `${stripOllamaApiSuffix(baseUrl)}/api/chat`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...config.extraHeaders
+  };
+
+  // A local daemon needs no credential, but a key is still forwarded for authenticating reverse proxies.
+  if (config.apiKey && !hasHeader(headers, 'authorization')) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const modelOptions: Record<string, unknown> = {
+    temperature: config.temperature,
+    num_ctx: config.ollamaContextLength
+  };
+
+  if (typeof config.maxTokens === 'number') {
+    modelOptions.num_predict = config.maxTokens;
+  }
+
+  const body: Record<string, unknown> = {
+    model: config.model,
+    messages: [
+      { role: 'system', content: prompt.systemPrompt },
+      { role: 'user', content: prompt.userPrompt },
+      ...(prompt.followUpTurns ?? [])
+    ],
+    stream: config.streamResponse,
+    options: modelOptions
+  };
+
+  const debug = createDebugSnapshot(config.provider, config.model, endpoint, headers, body);
+
+  try {
+    const response = await fetchWithRetry(
+      endpoint,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      },
+      config,
+      debug,
+      options.signal
+    );
+
+    if (response.ok && isNdjsonStream(response)) {
+      const text = await readStreamedText(response, debug, extractOllamaDelta, config.requestTimeoutMs, options, 'ndjson');
+      if (!text.trim()) {
+        throw new AiRequestError('Ollama returned no message content.', debug);
+      }
+      return { text, debug };
+    }
+
+    const responseText = await captureResponseDebug(response, debug, config.requestTimeoutMs);
+    if (!response.ok) {
+      throw new AiRequestError(`HTTP ${response.status}: ${truncate(responseText, 600)}`, debug);
+    }
+
+    const text = extractOllamaDelta(parseJsonPayload(responseText, debug)).trim();
+    if (!text) {
+      throw new AiRequestError('Ollama returned no message content.', debug);
     }
 
     return { text, debug };
@@ -231,14 +719,227 @@ async function requestGemini(
   }
 }
 
-async function captureResponseDebug(response: Response, debug: AiDebugSnapshot): Promise<string> {
+/**
+ * Lists the models installed on an Ollama daemon through `/api/tags`.
+ * Returns an empty list when the daemon is unreachable so callers can fall back to suggestions.
+ */
+export async function listOllamaModels(baseUrl: string, timeoutMs: number): Promise<string[]> {
+  try {
+    const response = await fetchWithTimeout(
+      `${stripOllamaApiSuffix(baseUrl)}/api/tags`,
+      { method: 'GET' },
+      timeoutMs
+    );
+    if (!response.ok) {
+      return [];
+    }
+
+    const payload = (await response.json()) as JsonValue;
+    const models = payload.models as Array<Record<string, unknown>> | undefined;
+    return (models ?? [])
+      .map(model => String(model.name ?? model.model ?? '').trim())
+      .filter(name => name.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+async function captureResponseDebug(
+  response: Response,
+  debug: AiDebugSnapshot,
+  idleTimeoutMs: number
+): Promise<string> {
   debug.responseStatus = response.status;
   debug.responseHeaders = collectHeaders(response.headers);
-  const text = await response.text();
+  const text = await readResponseText(response, idleTimeoutMs);
   debug.responseBody = truncate(text, MAX_DEBUG_RESPONSE_LENGTH);
   return text;
 }
 
+async function readResponseText(response: Response, idleTimeoutMs: number): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return '';
+  }
+
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await readChunk(reader, idleTimeoutMs);
+    if (done) {
+      return text + decoder.decode();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * Reads the next body chunk. The request timeout only covers the wait for response headers, so
+ * the body gets its own idle timer: when no data arrives within `idleTimeoutMs` the body is
+ * cancelled and the read fails.
+ */
+async function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  idleTimeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stalled = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject first: cancelling settles the pending read right away, which would otherwise win the race.
+      reject(new Error(`Response stalled: no data received for ${idleTimeoutMs} ms.`));
+      void reader.cancel().catch(() => undefined);
+    }, idleTimeoutMs);
+  });
+
+  try {
+    return await Promise.race([reader.read(), stalled]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isEventStream(response: Response): boolean {
+  return (response.headers.get('content-type') ?? '').toLowerCase().includes('text/event-stream');
+}
+
+function isNdjsonStream(response: Response): boolean {
+  return (response.headers.get('content-type') ?? '').toLowerCase().includes('application/x-ndjson');
+}
+
+/**
+ * Reads a streamed response (SSE `data:` events or newline-delimited JSON), feeding every event
+ * through `extractDelta` and reporting the accumulated text after each chunk. A stream that stays
+ * silent for `idleTimeoutMs` fails. The raw stream is kept in the debug snapshot.
+ */
+async function readStreamedText(
+  response: Response,
+  debug: AiDebugSnapshot,
+  extractDelta: (event: JsonValue) => string,
+  idleTimeoutMs: number,
+  options: GenerateCommitOptions,
+  framing: StreamFraming = 'sse'
+): Promise<string> {
+  debug.responseStatus = response.status;
+  debug.responseHeaders = collectHeaders(response.headers);
+  debug.streamed = true;
+  debug.streamChunkCount = 0;
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new AiRequestError('Provider returned an empty stream.', debug);
+  }
+
+  const decoder = new TextDecoder();
+  let raw = '';
+  let pending = '';
+  let text = '';
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (framing === 'sse' && !trimmed.startsWith('data:')) {
+      return;
+    }
+
+    const data = framing === 'sse' ? trimmed.slice('data:'.length).trim() : trimmed;
+    if (!data || data === '[DONE]') {
+      return;
+    }
+
+    let event: JsonValue;
+    try {
+      event = JSON.parse(data) as JsonValue;
+    } catch {
+      return;
+    }
+
+    const streamError = event.error;
+    if (streamError) {
+      throw new AiRequestError(`Stream error: ${truncate(JSON.stringify(streamError), 600)}`, debug);
+    }
+
+    const delta = extractDelta(event);
+    if (!delta) {
+      return;
+    }
+
+    debug.streamChunkCount = (debug.streamChunkCount ?? 0) + 1;
+    text += delta;
+    options.onPartialText?.(text);
+  };
+
+  const onAbort = () => {
+    void reader.cancel().catch(() => undefined);
+  };
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      const { done, value } = await readChunk(reader, idleTimeoutMs);
+      const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+      raw += chunk;
+      pending += chunk;
+
+      const lines = pending.split(/\r?\n/);
+      pending = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        handleLine(line);
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    debug.responseBody = truncate(raw, MAX_DEBUG_RESPONSE_LENGTH);
+  }
+
+  // Cancelling ends the stream like a normal close; what arrived so far is not a result.
+  if (options.signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+
+  return text;
+}
+
+function extractOpenAiDelta(event: JsonValue): string {
+  const choices = event.choices as Array<Record<string, unknown>> | undefined;
+  const delta = choices?.[0]?.delta as Record<string, unknown> | undefined;
+  const content = delta?.content;
+  return typeof content === 'string' ? content : '';
+}
+
+function extractOllamaDelta(event: JsonValue): string {
+  const message = event.message as Record<string, unknown> | undefined;
+  const content = message?.content;
+  return typeof content === 'string' ? content : '';
+}
+
+function extractAnthropicDelta(event: JsonValue): string {
+  if (event.type !== 'content_block_delta') {
+    return '';
+  }
+
+  const delta = event.delta as Record<string, unknown> | undefined;
+  return delta?.type === 'text_delta' && typeof delta.text === 'string' ? delta.text : '';
+}
+
+function extractGeminiDelta(event: JsonValue): string {
+  return extractGeminiParts(event)?.join('') ?? '';
+}
+
+function extractGeminiParts(payload: JsonValue, index = 0): string[] | undefined {
+  const candidates = payload.candidates as Array<Record<string, unknown>> | undefined;
+  const candidate = candidates?.[index];
+  const content = candidate?.content as Record<string, unknown> | undefined;
+  const parts = content?.parts as Array<Record<string, unknown>> | undefined;
+  return parts?.map(part => String(part.text ?? ''));
+}
+
 function parseJsonPayload(text: string, debug: AiDebugSnapshot): JsonValue {
   try {
     return JSON.parse(text) as JsonValue;
@@ -274,17 +975,162 @@ function createDebugSnapshot(
   };
 }
 
-async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+/**
+ * Sends the request, retrying transient failures (408, 429, 5xx, network errors and timeouts)
+ * with exponential backoff. `Retry-After` takes precedence over the computed delay. Every
+ * attempt is appended to `debug.attempts`; user cancellation is never retried.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  config: ExtensionConfig,
+  debug: AiDebugSnapshot,
+  signal?: AbortSignal
+): Promise<Response> {
+  const attempts: AiRequestAttempt[] = [];
+  debug.attempts = attempts;
+
+  for (let attempt = 1; ; attempt += 1) {
+    const startedAt = Date.now();
+    const record: AiRequestAttempt = {
+      attempt,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: 0
+    };
+    attempts.push(record);
+
+    const canRetry = attempt < config.retryMaxAttempts;
+
+    try {
+      const response = await fetchWithTimeout(url, init, config.requestTimeoutMs, signal);
+      record.durationMs = Date.now() - startedAt;
+      record.status = response.status;
+
+      if (!canRetry || !isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const delayMs = computeRetryDelay(attempt, config, response.headers.get('retry-after'));
+      if (delayMs === undefined) {
+        return response;
+      }
+
+      record.error = `HTTP ${response.status}`;
+      record.retryDelayMs = delayMs;
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(delayMs, signal);
+    } catch (error) {
+      record.durationMs = Date.now() - startedAt;
+      record.error = error instanceof Error ? error.message : String(error);
+
+      if (signal?.aborted || error instanceof RequestCancelledError || !canRetry) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, config, null);
+      if (delayMs === undefined) {
+        throw error;
+      }
+
+      record.retryDelayMs = delayMs;
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function computeRetryDelay(
+  attempt: number,
+  config: ExtensionConfig,
+  retryAfter: string | null
+): number | undefined {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== undefined) {
+    // Waiting longer than the cap would keep the progress notification open for too long.
+    return requested <= MAX_RETRY_DELAY_MS ? requested : undefined;
+  }
+
+  const exponential = config.retryBaseDelayMs * 2 ** (attempt - 1);
+  const jitter = exponential * config.retryJitter * (Math.random() * 2 - 1);
+  return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, Math.round(exponential + jitter)));
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+
   const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
     return await fetch(url, {
       ...init,
       signal: controller.signal
     });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    if (timedOut) {
+      throw new Error(`Request timed out after ${timeoutMs} ms.`);
+    }
+    throw error;
   } finally {
     clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
@@ -303,19 +1149,85 @@ function createOpenAiEndpoint(baseUrl: string, customPath: string): string {
   return `${normalizedBase}${normalizedPath.startsWith('/') ? normalizedPath : `/${normalizedPath}`}`;
 }
 
-function sanitizeCommitText(raw: string): string {
-  const candidates = extractCandidates(raw);
+function stripOllamaApiSuffix(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/(?:api|v1)$/, '');
+}
+
+function createAzureEndpoint(baseUrl: string, deployment: string, apiVersion: string): string {
+  const normalizedBase = baseUrl.replace(/\/+$/, '');
+
+  let endpoint: URL;
+  try {
+    endpoint = isAzureDeploymentUrl(normalizedBase)
+      ? new URL(normalizedBase)
+      : new URL(
+          `${normalizedBase}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions`
+        );
+  } catch {
+    throw new Error(`Invalid Azure endpoint: ${normalizedBase}`);
+  }
+
+  if (!endpoint.pathname.endsWith('/chat/completions')) {
+    endpoint.pathname = `${endpoint.pathname.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  if (!endpoint.searchParams.has('api-version')) {
+    endpoint.searchParams.set('api-version', apiVersion);
+  }
+
+  return endpoint.toString();
+}
+
+/** Whether an Azure base URL already names the deployment, which then wins over `azureDeployment`. */
+export function isAzureDeploymentUrl(url: string): boolean {
+  return /\/openai\/deployments\/[^/?]+/.test(url);
+}
+
+function createAnthropicEndpoint(baseUrl: string): string {
+  const normalizedBase = baseUrl.replace(/\/+$/, '');
+
+  if (normalizedBase.endsWith('/messages')) {
+    return normalizedBase;
+  }
+
+  if (normalizedBase.endsWith('/v1')) {
+    return `${normalizedBase}/messages`;
+  }
+
+  return `${normalizedBase}/v1/messages`;
+}
+
+/**
+ * Turns raw model text into the final message: the usual sanitizing, then the branch ticket is
+ * placed where `ticketPlacement` says, whether or not the model already mentioned it.
+ */
+export function normalizeCommitMessage(raw: string, prompt: PromptPayload, config: ExtensionConfig): string {
+  return applyTicketReference(sanitizeCommitText(raw, config), prompt.ticket, config.ticketPlacement);
+}
+
+function sanitizeCommitText(raw: string, config: ExtensionConfig): string {
+  // Plain messages have no type prefix: the first line is the subject and the rest is the body, so a
+  // body line such as "Note: ..." must not be taken for a header or split apart.
+  const plain = config.messageFormat === 'plain';
+  const candidates = extractCandidates(raw, !plain);
   if (candidates.length === 0) {
     throw new Error('Generated commit message is empty.');
   }
 
+  if (plain) {
+    const [subject, ...body] = candidates.map(normalizeBodyLine).filter(line => /[\p{L}\p{N}]/u.test(line));
+    if (subject) {
+      return formatCommitMessage(subject, body, config);
+    }
+    throw new Error('Generated commit message is invalid or missing subject.');
+  }
+
   const normalizedCandidates = candidates
     .map(candidate => normalizeLocalizedType(normalizeCommitLine(candidate)))
     .filter(candidate => candidate.length > 0);
 
   const firstHeaderIndex = normalizedCandidates.findIndex(isValidCommitLine);
   if (firstHeaderIndex >= 0) {
-    const header = ensureGitmojiHeader(normalizedCandidates[firstHeaderIndex]);
     const bodyLines: string[] = [];
 
     for (let i = firstHeaderIndex + 1; i < normalizedCandidates.length; i += 1) {
@@ -330,22 +1242,116 @@ function sanitizeCommitText(raw: string): string {
       }
     }
 
-    if (bodyLines.length === 0) {
-      return header;
-    }
-
-    const bulleted = bodyLines.map(line => `  - ${line}`);
-    return `${header}\n${bulleted.join('\n')}`;
+    return formatCommitMessage(normalizedCandidates[firstHeaderIndex], bodyLines, config);
   }
 
   const fallback = buildFallbackCommitLine(candidates);
   if (fallback && isValidCommitLine(fallback)) {
-    return ensureGitmojiHeader(fallback);
+    return formatCommitMessage(fallback, [], config);
   }
 
   throw new Error('Generated commit message is invalid or missing subject.');
 }
 
+/**
+ * Renders a sanitized header and body lines in the configured `messageFormat`. The header may or
+ * may not carry a gitmoji and a type; the custom format drops what its template has no place for,
+ * and a plain header is the subject as written.
+ */
+function formatCommitMessage(header: string, bodyLines: string[], config: ExtensionConfig): string {
+  const parsed = parseCommitHeader(header);
+  const typeScope = parsed?.typeScope.match(/^([a-zA-Z]+)(?:\(([^)]*)\))?(!?)$/);
+  const type = typeScope?.[1].toLowerCase() ?? '';
+  const scope = typeScope?.[2]?.trim() ?? '';
+  const breaking = typeScope?.[3] ?? '';
+  const subject = (parsed?.subject ?? header).trim();
+
+  switch (config.messageFormat) {
+    case 'conventional':
+      return joinMessage(
+        parsed ? `${parsed.typeScope}: ${subject}` : subject,
+        bulletBody(bodyLines, CONVENTIONAL_BODY_COLUMNS)
+      );
+    case 'angular': {
+      const angularType = ANGULAR_TYPE_ALIASES[type] ?? type;
+      const angularSubject = subject.replace(/[.。]+$/u, '').replace(/^\p{Lu}(?!\p{Lu})/u, letter => letter.toLowerCase());
+      return joinMessage(
+        parsed ? `${angularType}${scope ? `(${scope})` : ''}${breaking}: ${angularSubject}` : angularSubject,
+        bulletBody(bodyLines, ANGULAR_BODY_COLUMNS)
+      );
+    }
+    case 'plain':
+      // A plain subject has no header to parse: "Fix parser: handle empty input" is kept whole.
+      return joinMessage(
+        header.trim().replace(/^\p{Ll}/u, letter => letter.toUpperCase()).replace(/[.。]+$/u, ''),
+        wrapText(bodyLines.map(toSentence).join(' '), PLAIN_BODY_COLUMNS)
+      );
+    case 'custom':
+      return renderMessageTemplate(config.messageTemplate, {
+        gitmoji: parsed ? parsed.gitmoji?.trim() || gitmojiForType(type) : '',
+        type,
+        scope,
+        subject,
+        body: bulletBody(bodyLines, CONVENTIONAL_BODY_COLUMNS)
+      });
+    default: {
+      const gitmojiHeader = ensureGitmojiHeader(header);
+      return bodyLines.length === 0 ? gitmojiHeader : `${gitmojiHeader}\n${bodyLines.map(line => `  - ${line}`).join('\n')}`;
+    }
+  }
+}
+
+function toSentence(line: string): string {
+  const capitalized = line.replace(/^\p{Ll}/u, letter => letter.toUpperCase());
+  return /[.!?。！？]$/u.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+function joinMessage(header: string, body: string): string {
+  return body ? `${header}\n\n${body}` : header;
+}
+
+function bulletBody(lines: string[], columns: number): string {
+  return lines.map(line => wrapText(`- ${line}`, columns, '  ')).join('\n');
+}
+
+/** Greedy word wrap; words longer than the width (and CJK text without spaces) stay on one line. */
+function wrapText(text: string, columns: number, continuationIndent = ''): string {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > columns) {
+      lines.push(current);
+      current = `${continuationIndent}${word}`;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Fills `{gitmoji}`, `{type}`, `{scope}`, `{subject}` and `{body}`. Brackets around an empty scope
+ * and blank lines left by an empty body are removed.
+ */
+function renderMessageTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/\\n/g, '\n')
+    .replace(/\(\{scope\}\)/g, values.scope ? `(${values.scope})` : '')
+    .replace(/\{(gitmoji|type|scope|subject)\}/g, (_match, key: string) => values[key] ?? '')
+    .split('\n')
+    .map(line => (line.includes('{body}') ? line : line.replace(/ {2,}/g, ' ').trim()))
+    .join('\n')
+    .replace(/\{body\}/g, values.body)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 function normalizeBodyLine(value: string): string {
   return value
     .replace(/^[•*-]\s+/, '')
@@ -382,7 +1388,7 @@ function normalizeCommitLine(value: string): string {
   return `${parsed.typeScope}: ${subject}`.trim();
 }
 
-function extractCandidates(raw: string): string[] {
+function extractCandidates(raw: string, splitPacked = true): string[] {
   const cleaned = raw
     .replace(/```[a-zA-Z]*\s*/g, '')
     .replace(/```/g, '')
@@ -399,7 +1405,7 @@ function extractCandidates(raw: string): string[] {
     )
     .filter(line => line.length > 0);
 
-  return splitPackedCommitLines(lines);
+  return splitPacked ? splitPackedCommitLines(lines) : lines;
 }
 
 function splitPackedCommitLines(lines: string[]): string[] {
@@ -532,6 +1538,15 @@ type ParsedCommitHeader = {
   subject: string;
 };
 
+// Angular's type list has no chore or style.
+const ANGULAR_TYPE_ALIASES: Record<string, string> = {
+  chore: 'build',
+  style: 'refactor'
+};
+const CONVENTIONAL_BODY_COLUMNS = 72;
+const ANGULAR_BODY_COLUMNS = 100;
+const PLAIN_BODY_COLUMNS = 72;
+
 const GITMOJI_BY_TYPE: Record<string, string> = {
   feat: '✨',
   fix: '🐛',
@@ -584,6 +1599,49 @@ function ensureGitmojiHeader(value: string): string {
   return `${gitmoji} ${parsed.typeScope}: ${subject}`.trim();
 }
 
+function applyTicketReference(message: string, ticket: string | undefined, placement: TicketPlacement): string {
+  if (!ticket || placement === 'none') {
+    return message;
+  }
+
+  const escaped = ticket.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const [header, ...body] = message.split('\n');
+
+  if (placement === 'footer') {
+    const referenced = new RegExp(`^Refs:.*(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'i');
+    return body.some(line => referenced.test(line.trim())) ? message : `${message}\n\nRefs: ${ticket}`;
+  }
+
+  const parsed = parseCommitHeader(header);
+  // Mentions the model made anyway, e.g. "[PROJ-1] " or "PROJ-1: ", are dropped before placing the key.
+  const mention = new RegExp(`[\\[(]?(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])[\\])]?:?\\s*`, 'gi');
+  if (!parsed) {
+    return [`${ticket} ${header.replace(mention, '').trim()}`, ...body].join('\n');
+  }
+
+  const subject = parsed.subject.replace(mention, '').trim() || parsed.subject;
+  let typeScope = parsed.typeScope;
+  let placedSubject = subject;
+
+  if (placement === 'scope') {
+    const match = typeScope.match(/^([a-zA-Z]+)(?:\(([^)]*)\))?(!?)$/);
+    if (match) {
+      const scopes = (match[2] ?? '').split(',').map(scope => scope.trim()).filter(Boolean);
+      if (!scopes.some(scope => scope.toLowerCase() === ticket.toLowerCase())) {
+        scopes.push(ticket);
+      }
+      typeScope = `${match[1]}(${scopes.join(',')})${match[3]}`;
+    } else {
+      placedSubject = `${ticket} ${subject}`;
+    }
+  } else {
+    placedSubject = `${ticket} ${subject}`;
+  }
+
+  const placedHeader = `${parsed.gitmoji ? `${parsed.gitmoji} ` : ''}${typeScope}: ${placedSubject}`;
+  return [placedHeader, ...body].join('\n');
+}
+
 function gitmojiForType(type: string): string {
   return GITMOJI_BY_TYPE[type] ?? '🔧';
 }
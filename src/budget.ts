@@ -0,0 +1,171 @@
+import { ExtensionConfig, FileDiff } from './types';
+
+const DEFAULT_OUTPUT_RESERVE_TOKENS = 1024;
+// Leaves room for the estimator's error and the per-message overhead providers add.
+const SAFETY_MARGIN_RATIO = 0.05;
+const MIN_DIFF_TOKENS = 256;
+// Section headers `collectRepositoryChanges` writes into each file's diff.
+const UNTRACKED_SECTION_HEADER = '# Untracked file content';
+const SECTION_HEADERS = new Set(['# Staged diff', '# Unstaged diff', UNTRACKED_SECTION_HEADER]);
+
+export interface FittedDiff {
+  text: string;
+  truncated: boolean;
+  omittedFiles: string[];
+}
+
+/**
+ * Approximates the token count of `text` without a model-specific tokenizer. CJK and other
+ * non-ASCII characters count as one token each; ASCII runs count as one token per three
+ * characters, which slightly overestimates English prose and fits source code well.
+ */
+export function estimateTokens(text: string): number {
+  let asciiChars = 0;
+  let otherTokens = 0;
+
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      asciiChars += 1;
+    } else {
+      otherTokens += 1;
+    }
+  }
+
+  return Math.ceil(asciiChars / 3) + otherTokens;
+}
+
+/**
+ * Returns how many tokens the diff may use once the fixed prompt text and the output reserve
+ * are taken out of the model's context window (capped by `maxPromptTokens`).
+ */
+export function resolveDiffTokenBudget(config: ExtensionConfig, fixedPromptText: string): number {
+  const outputReserve = config.maxTokens ?? DEFAULT_OUTPUT_RESERVE_TOKENS;
+  const promptLimit = Math.min(config.maxPromptTokens, config.contextTokens - outputReserve);
+  const usable = Math.floor(promptLimit * (1 - SAFETY_MARGIN_RATIO)) - estimateTokens(fixedPromptText);
+  return Math.max(MIN_DIFF_TOKENS, usable);
+}
+
+/**
+ * Packs per-file diffs into `maxTokens`, keeping files in order and cutting only at hunk
+ * boundaries. A file that does not fit completely keeps its leading hunks, or the leading lines of
+ * untracked content, which has no hunks; files that do not fit at all are listed by name so the
+ * model still knows they changed.
+ */
+export function fitDiffToTokenBudget(files: FileDiff[], maxTokens: number): FittedDiff {
+  const parts: string[] = [];
+  const omittedFiles: string[] = [];
+  let remaining = maxTokens;
+  let truncated = false;
+
+  for (const file of files) {
+    const fileTokens = estimateTokens(file.diff) + 1;
+    if (fileTokens <= remaining) {
+      parts.push(file.diff);
+      remaining -= fileTokens;
+      continue;
+    }
+
+    truncated = true;
+    const blocks = splitDiffBlocks(file.diff);
+    const kept: string[] = [];
+    let hunksOmitted = 0;
+    let linesOmitted = 0;
+    let stopped = false;
+
+    for (const block of blocks) {
+      const blockTokens = estimateTokens(block) + 1;
+      if (!stopped && blockTokens <= remaining) {
+        kept.push(block);
+        remaining -= blockTokens;
+        continue;
+      }
+
+      if (!stopped && block.startsWith(UNTRACKED_SECTION_HEADER)) {
+        const lines = block.split('\n');
+        const keptLines = takeLeadingLines(lines, remaining);
+        // The section header alone says nothing about the file.
+        if (keptLines.length > 1) {
+          const text = keptLines.join('\n');
+          kept.push(text);
+          remaining -= estimateTokens(text) + 1;
+          linesOmitted = lines.length - keptLines.length;
+        }
+      }
+
+      stopped = true;
+      if (block.startsWith('@@')) {
+        hunksOmitted += 1;
+      }
+    }
+
+    // Only headers survived, so nothing useful about this file made it in.
+    if (!kept.some(isContentBlock)) {
+      remaining += kept.reduce((sum, block) => sum + estimateTokens(block) + 1, 0);
+      omittedFiles.push(file.path);
+      continue;
+    }
+
+    if (linesOmitted > 0) {
+      kept.push(`[${linesOmitted} more line(s) omitted to fit the model context]`);
+    }
+    if (hunksOmitted > 0 || linesOmitted === 0) {
+      kept.push(`[${hunksOmitted} more hunk(s) omitted to fit the model context]`);
+    }
+    parts.push(kept.join('\n'));
+  }
+
+  return {
+    text: parts.join('\n\n'),
+    truncated,
+    omittedFiles
+  };
+}
+
+/**
+ * Splits one file's diff into header blocks and hunks; hunk blocks start with `@@`. Blocks start
+ * only at the collector's section headers, `diff --git` and `@@`; untracked file content is kept
+ * as one block, since its lines are the file's own text and not diff syntax.
+ */
+export function splitDiffBlocks(diff: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inUntrackedContent = false;
+
+  for (const line of diff.split('\n')) {
+    const isSectionHeader = SECTION_HEADERS.has(line);
+    if (isSectionHeader) {
+      inUntrackedContent = line === UNTRACKED_SECTION_HEADER;
+    }
+    const startsBlock =
+      isSectionHeader || (!inUntrackedContent && (line.startsWith('@@') || line.startsWith('diff --git ')));
+    if (startsBlock && current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
+
+function isContentBlock(block: string): boolean {
+  return block.startsWith('@@') || block.startsWith(UNTRACKED_SECTION_HEADER);
+}
+
+/** Returns the longest run of leading lines whose joined text fits in `maxTokens`. */
+function takeLeadingLines(lines: string[], maxTokens: number): string[] {
+  let tokens = 1;
+  let count = 0;
+  while (count < lines.length) {
+    tokens += estimateTokens(lines[count]) + 1;
+    if (tokens > maxTokens) {
+      break;
+    }
+    count += 1;
+  }
+  return lines.slice(0, count);
+}
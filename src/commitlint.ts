@@ -0,0 +1,364 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { CommitlintCaseRule, CommitlintRules, ExtensionConfig } from './types';
+
+// Same lookup order as commitlint's own config loader; package.json is checked last.
+const CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  '.commitlintrc.cts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+  'commitlint.config.cts'
+];
+
+/** What `@commitlint/config-conventional` enforces, for configs that extend it. */
+const CONVENTIONAL_RULES: Omit<CommitlintRules, 'source'> = {
+  typeEnum: ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test'],
+  headerMaxLength: 100,
+  typeCase: { when: 'always', cases: ['lower-case'] },
+  subjectCase: { when: 'never', cases: ['sentence-case', 'start-case', 'pascal-case', 'upper-case'] },
+  subjectFullStop: '.'
+};
+
+const SEVERITY_NAMES: Record<string, number> = {
+  'RuleConfigSeverity.Disabled': 0,
+  'RuleConfigSeverity.Warning': 1,
+  'RuleConfigSeverity.Error': 2
+};
+
+type RuleValue = [number, string, unknown];
+
+/**
+ * Finds the repository's commitlint config and reads the rules that can be interpreted without
+ * running it: `type-enum`, `scope-enum`, `header-max-length`, the case rules, `subject-full-stop`
+ * and `scope-empty`, plus the defaults of `@commitlint/config-conventional` when it is extended.
+ * Rules are read from the literal text, so computed values and block-style YAML are skipped.
+ * Without a `typedHeader` only the rules that do not depend on `type(scope): subject` are kept.
+ */
+export async function loadCommitlintRules(
+  repositoryPath: string,
+  typedHeader = true
+): Promise<CommitlintRules | undefined> {
+  const found = await readConfigText(repositoryPath);
+  if (!found) {
+    return undefined;
+  }
+
+  const text = stripComments(found.text);
+  const rules: CommitlintRules = {
+    source: found.source,
+    ...(text.includes('@commitlint/config-conventional') ? CONVENTIONAL_RULES : {})
+  };
+
+  const typeEnum = readRule(text, 'type-enum');
+  if (typeEnum) {
+    rules.typeEnum = isEnabled(typeEnum, 'always') ? toStringList(typeEnum[2]) : undefined;
+  }
+
+  const scopeEnum = readRule(text, 'scope-enum');
+  if (scopeEnum) {
+    rules.scopeEnum = isEnabled(scopeEnum, 'always') ? toStringList(scopeEnum[2]) : undefined;
+  }
+
+  const headerMaxLength = readRule(text, 'header-max-length');
+  if (headerMaxLength) {
+    rules.headerMaxLength =
+      isEnabled(headerMaxLength, 'always') && typeof headerMaxLength[2] === 'number' ? headerMaxLength[2] : undefined;
+  }
+
+  const typeCase = readRule(text, 'type-case');
+  if (typeCase) {
+    rules.typeCase = toCaseRule(typeCase);
+  }
+
+  const scopeCase = readRule(text, 'scope-case');
+  if (scopeCase) {
+    rules.scopeCase = toCaseRule(scopeCase);
+  }
+
+  const subjectCase = readRule(text, 'subject-case');
+  if (subjectCase) {
+    rules.subjectCase = toCaseRule(subjectCase);
+  }
+
+  const subjectFullStop = readRule(text, 'subject-full-stop');
+  if (subjectFullStop) {
+    rules.subjectFullStop = isEnabled(subjectFullStop, 'never') ? String(subjectFullStop[2] ?? '.') : undefined;
+  }
+
+  const scopeEmpty = readRule(text, 'scope-empty');
+  if (scopeEmpty) {
+    rules.scopeRequired = isEnabled(scopeEmpty, 'never') || undefined;
+  }
+
+  const applicable: CommitlintRules = typedHeader
+    ? rules
+    : {
+        source: rules.source,
+        typedHeader: false,
+        headerMaxLength: rules.headerMaxLength,
+        subjectFullStop: rules.subjectFullStop
+      };
+  const hasRules = Object.entries(applicable).some(
+    ([key, value]) => key !== 'source' && key !== 'typedHeader' && value !== undefined
+  );
+  return hasRules ? applicable : undefined;
+}
+
+/** Whether messages of the configured format start with `type(scope): subject`, which most rules are about. */
+export function hasTypedHeader(config: Pick<ExtensionConfig, 'messageFormat' | 'messageTemplate'>): boolean {
+  if (config.messageFormat === 'plain') {
+    return false;
+  }
+  if (config.messageFormat !== 'custom') {
+    return true;
+  }
+
+  const headerTemplate = config.messageTemplate.replace(/\\n/g, '\n').split('\n')[0].trim();
+  return /^(?:\{gitmoji\}\s*)?\{type\}(?:\(\{scope\}\))?!?:/.test(headerTemplate);
+}
+
+/** Prompt constraints for the loaded rules. */
+export function describeCommitlintRules(rules: CommitlintRules): string {
+  const lines: string[] = [];
+
+  if (rules.typeEnum?.length) {
+    lines.push(`- type must be one of: ${rules.typeEnum.join(', ')}`);
+  }
+  if (rules.scopeEnum?.length) {
+    lines.push(`- scope must be one of: ${rules.scopeEnum.join(', ')}${rules.scopeRequired ? '' : ' (or omitted)'}`);
+  } else if (rules.scopeRequired) {
+    lines.push('- a scope is required');
+  }
+  if (rules.headerMaxLength !== undefined) {
+    lines.push(`- the first line must be at most ${rules.headerMaxLength} characters`);
+  }
+  if (rules.typeCase) {
+    lines.push(`- type ${describeCaseRule(rules.typeCase)}`);
+  }
+  if (rules.scopeCase) {
+    lines.push(`- scope ${describeCaseRule(rules.scopeCase)}`);
+  }
+  if (rules.subjectCase) {
+    lines.push(`- subject ${describeCaseRule(rules.subjectCase)}`);
+  }
+  if (rules.subjectFullStop) {
+    lines.push(`- subject must not end with "${rules.subjectFullStop}"`);
+  }
+
+  return `Commitlint rules of this repository (from ${rules.source}); the message must pass them:\n${lines.join('\n')}`;
+}
+
+/**
+ * Checks the header of `message` against the rules and returns one readable line per violation.
+ * `ignoredScope` (the branch ticket placed in the scope) is not checked against `scope-enum`.
+ */
+export function lintCommitMessage(message: string, rules: CommitlintRules, ignoredScope?: string): string[] {
+  const header = message.split('\n')[0].trim();
+  const violations: string[] = [];
+
+  if (rules.headerMaxLength !== undefined && header.length > rules.headerMaxLength) {
+    violations.push(`header is ${header.length} characters long; the maximum is ${rules.headerMaxLength}`);
+  }
+
+  if (rules.typedHeader === false) {
+    if (rules.subjectFullStop && header.endsWith(rules.subjectFullStop)) {
+      violations.push(`subject may not end with "${rules.subjectFullStop}"`);
+    }
+    return violations;
+  }
+
+  const parsed = header.match(/^(?:\S+\s+)?([a-zA-Z]+)(?:\(([^)]*)\))?!?:\s*(.*)$/u);
+  if (!parsed) {
+    violations.push('header must be formatted as "type(scope): subject"');
+    return violations;
+  }
+
+  const [, type, scopeText = '', subject] = parsed;
+  const scopes = scopeText
+    .split(/[,/\\]/)
+    .map(scope => scope.trim())
+    .filter(scope => scope && scope !== ignoredScope);
+
+  if (rules.typeEnum?.length && !rules.typeEnum.includes(type)) {
+    violations.push(`type "${type}" is not one of: ${rules.typeEnum.join(', ')}`);
+  }
+  if (rules.typeCase && !satisfiesCaseRule(type, rules.typeCase)) {
+    violations.push(`type "${type}" ${describeCaseRule(rules.typeCase)}`);
+  }
+
+  if (rules.scopeRequired && scopes.length === 0) {
+    violations.push('scope may not be empty');
+  }
+  for (const scope of scopes) {
+    if (rules.scopeEnum?.length && !rules.scopeEnum.includes(scope)) {
+      violations.push(`scope "${scope}" is not one of: ${rules.scopeEnum.join(', ')}`);
+    }
+    if (rules.scopeCase && !satisfiesCaseRule(scope, rules.scopeCase)) {
+      violations.push(`scope "${scope}" ${describeCaseRule(rules.scopeCase)}`);
+    }
+  }
+
+  if (rules.subjectCase && subject && !satisfiesCaseRule(subject, rules.subjectCase)) {
+    violations.push(`subject "${subject}" ${describeCaseRule(rules.subjectCase)}`);
+  }
+  if (rules.subjectFullStop && subject.endsWith(rules.subjectFullStop)) {
+    violations.push(`subject may not end with "${rules.subjectFullStop}"`);
+  }
+
+  return violations;
+}
+
+async function readConfigText(repositoryPath: string): Promise<{ source: string; text: string } | undefined> {
+  for (const source of CONFIG_FILES) {
+    try {
+      return { source, text: await fs.readFile(join(repositoryPath, source), 'utf8') };
+    } catch {
+      // Try the next candidate.
+    }
+  }
+
+  try {
+    const manifest = JSON.parse(await fs.readFile(join(repositoryPath, 'package.json'), 'utf8')) as {
+      commitlint?: unknown;
+    };
+    if (manifest.commitlint && typeof manifest.commitlint === 'object') {
+      return { source: 'package.json', text: JSON.stringify(manifest.commitlint) };
+    }
+  } catch {
+    // No manifest, or not valid JSON.
+  }
+
+  return undefined;
+}
+
+function stripComments(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)(\/\/|#).*$/gm, '$1');
+}
+
+/** Finds `'rule-name': [...]` (or the YAML flow form) and reads the array literal that follows. */
+function readRule(text: string, name: string): RuleValue | undefined {
+  const match = new RegExp(`(["']?)${name}\\1\\s*:\\s*\\[`).exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const parsed = new LiteralReader(text, match.index + match[0].length - 1).readValue();
+  if (!Array.isArray(parsed) || typeof parsed[0] !== 'number') {
+    return undefined;
+  }
+
+  return [parsed[0], String(parsed[1] ?? 'always'), parsed[2]];
+}
+
+function isEnabled(rule: RuleValue, when: 'always' | 'never'): boolean {
+  return rule[0] > 0 && rule[1] === when;
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  const list = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  return list.length > 0 ? list : undefined;
+}
+
+function toCaseRule(rule: RuleValue): CommitlintCaseRule | undefined {
+  if (rule[0] === 0 || (rule[1] !== 'always' && rule[1] !== 'never')) {
+    return undefined;
+  }
+
+  const cases = typeof rule[2] === 'string' ? [rule[2]] : toStringList(rule[2]);
+  return cases ? { when: rule[1], cases } : undefined;
+}
+
+function describeCaseRule(rule: CommitlintCaseRule): string {
+  return `must ${rule.when === 'always' ? 'be' : 'not be'} ${rule.cases.join(' or ')}`;
+}
+
+function satisfiesCaseRule(value: string, rule: CommitlintCaseRule): boolean {
+  const matches = rule.cases.some(name => matchesCase(value, name));
+  return rule.when === 'always' ? matches : !matches;
+}
+
+function matchesCase(value: string, name: string): boolean {
+  switch (name) {
+    case 'lower-case':
+    case 'lowercase':
+      return value === value.toLowerCase();
+    case 'upper-case':
+    case 'uppercase':
+      return value === value.toUpperCase();
+    case 'camel-case':
+      return /^[a-z][a-zA-Z0-9]*$/.test(value);
+    case 'kebab-case':
+      return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value);
+    case 'pascal-case':
+      return /^[A-Z][a-zA-Z0-9]*$/.test(value);
+    case 'snake-case':
+      return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(value);
+    case 'sentence-case':
+    case 'sentencecase':
+      return /^\p{Lu}/u.test(value) && value.slice(1) === value.slice(1).toLowerCase();
+    case 'start-case':
+      return value.split(/\s+/).every(word => /^\p{Lu}/u.test(word));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Reads one literal value (array, quoted string, number or bare word) from JS, JSON or YAML flow
+ * syntax. `RuleConfigSeverity.*` members resolve to their numeric level.
+ */
+class LiteralReader {
+  constructor(
+    private readonly text: string,
+    private index: number
+  ) {}
+
+  readValue(): unknown {
+    this.skipSeparators();
+    const char = this.text[this.index];
+
+    if (char === '[') {
+      this.index += 1;
+      const items: unknown[] = [];
+      while (this.index < this.text.length) {
+        this.skipSeparators();
+        if (this.text[this.index] === ']') {
+          this.index += 1;
+          return items;
+        }
+        items.push(this.readValue());
+      }
+      return items;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const end = this.text.indexOf(char, this.index + 1);
+      const value = this.text.slice(this.index + 1, end < 0 ? undefined : end);
+      this.index = end < 0 ? this.text.length : end + 1;
+      return value;
+    }
+
+    const token = /^[^\s,\]]+/.exec(this.text.slice(this.index))?.[0] ?? '';
+    this.index += Math.max(token.length, 1);
+    if (token in SEVERITY_NAMES) {
+      return SEVERITY_NAMES[token];
+    }
+    return /^-?\d+(\.\d+)?$/.test(token) ? Number(token) : token;
+  }
+
+  private skipSeparators(): void {
+    while (this.index < this.text.length && /[\s,]/.test(this.text[this.index])) {
+      this.index += 1;
+    }
+  }
+}
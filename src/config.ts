@@ -1,12 +1,23 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig, Provider, UiLanguage } from './types';
-
-const DEFAULT_BASE_URLS: Record<Exclude<Provider, 'custom'>, string> = {
+import { fallbackKeyScope, getScopedApiKey, getStoredApiKey, profileKeyScope } from './secrets';
+import {
+  ExtensionConfig,
+  MessageFormat,
+  Provider,
+  ProviderProfile,
+  TicketPlacement,
+  UiLanguage,
+  UntrackedLargeFileMode
+} from './types';
+
+const DEFAULT_BASE_URLS: Record<Exclude<Provider, 'custom' | 'azure'>, string> = {
   openai: 'https://api.openai.com/v1',
   deepseek: 'https://api.deepseek.com/v1',
   gemini: 'https://generativelanguage.googleapis.com',
   kimi: 'https://api.moonshot.cn/v1',
-  glm: 'https://open.bigmodel.cn/api/paas/v4'
+  glm: 'https://open.bigmodel.cn/api/paas/v4',
+  anthropic: 'https://api.anthropic.com',
+  ollama: 'http://localhost:11434'
 };
 
 const DEFAULT_MODELS: Record<Provider, string> = {
@@ -15,6 +26,9 @@ const DEFAULT_MODELS: Record<Provider, string> = {
   gemini: 'gemini-2.0-flash',
   kimi: 'moonshot-v1-8k',
   glm: 'glm-4-flash',
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'qwen2.5-coder',
+  azure: 'gpt-4o-mini',
   custom: 'gpt-4o-mini'
 };
 
@@ -24,18 +38,110 @@ const SUGGESTED_MODELS: Record<Provider, string[]> = {
   gemini: ['gemini-2.0-flash', 'gemini-2.0-pro', 'gemini-1.5-flash', 'gemini-1.5-pro'],
   kimi: ['moonshot-v1-8k', 'moonshot-v1-32k', 'moonshot-v1-128k'],
   glm: ['glm-4-flash', 'glm-4-air', 'glm-4', 'glm-4-plus'],
+  anthropic: ['claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest', 'claude-sonnet-4-0', 'claude-opus-4-0'],
+  ollama: ['qwen2.5-coder', 'llama3.1', 'deepseek-r1', 'mistral'],
+  azure: [],
   custom: []
 };
 
+// Approximate context windows (in tokens) for the suggested models.
+const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  'gpt-4o-mini': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1-mini': 1047576,
+  'gpt-4.1': 1047576,
+  'deepseek-chat': 64000,
+  'deepseek-reasoner': 64000,
+  'gemini-2.0-flash': 1048576,
+  'gemini-2.0-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'moonshot-v1-8k': 8192,
+  'moonshot-v1-32k': 32768,
+  'moonshot-v1-128k': 131072,
+  'glm-4-flash': 128000,
+  'glm-4-air': 128000,
+  'glm-4': 128000,
+  'glm-4-plus': 128000,
+  'claude-3-5-haiku-latest': 200000,
+  'claude-3-7-sonnet-latest': 200000,
+  'claude-sonnet-4-0': 200000,
+  'claude-opus-4-0': 200000
+};
+
+const DEFAULT_CONTEXT_TOKENS = 8192;
+
+const DEFAULT_EXCLUDE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'bun.lockb',
+  'Cargo.lock',
+  'composer.lock',
+  'Gemfile.lock',
+  'poetry.lock',
+  'go.sum',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.snap',
+  '__snapshots__/'
+];
+
+const DEFAULT_REDACTION_DENY_PATTERNS = [
+  '.env',
+  '.env.*',
+  '!.env.example',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519',
+  '.npmrc',
+  '.netrc'
+];
+
+const DEFAULT_MESSAGE_TEMPLATE = '{type}({scope}): {subject}\n\n{body}';
+
+// Jira-style issue keys such as PROJ-1234.
+const DEFAULT_TICKET_PATTERN = '[A-Z][A-Z0-9]+-\\d+';
+
 const PROVIDER_ENV_KEYS: Record<Provider, string> = {
   openai: 'OPENAI_API_KEY',
   deepseek: 'DEEPSEEK_API_KEY',
   gemini: 'GEMINI_API_KEY',
   kimi: 'MOONSHOT_API_KEY',
   glm: 'ZHIPU_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  ollama: 'OLLAMA_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
   custom: 'GITFATHOM_API_KEY'
 };
 
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+type ProfileValues = Record<string, unknown>;
+
+const PROFILE_KEYS = [
+  'provider',
+  'model',
+  'apiKey',
+  'baseUrl',
+  'customRequestPath',
+  'azureDeployment',
+  'azureApiVersion',
+  'extraHeaders',
+  'language',
+  'systemPrompt',
+  'ruleTemplate',
+  'additionalRules',
+  'detailedOutput'
+] as const;
+
 const TRANSLATED_EN_RULE_TEMPLATE = `
         # Git Commit Message Style Guide
         Commit messages must follow Conventional Commits and include gitmoji.
@@ -145,35 +251,79 @@ const DEFAULT_PROMPTS: Record<UiLanguage, { system: string; rule: string }> = {
 
 export function readConfig(): ExtensionConfig {
   const cfg = vscode.workspace.getConfiguration('gitgathom');
-  const provider = getConfigValue<Provider>(cfg, 'provider', 'openai');
-  const language = normalizeLanguage(getConfigValue<string>(cfg, 'language', 'zh'));
-  const rawModel = getConfigValue<string>(cfg, 'model', '').trim();
-  const rawSystemPrompt = getConfigValue<string>(cfg, 'systemPrompt', '').trim();
-  const rawRuleTemplate = getConfigValue<string>(cfg, 'ruleTemplate', '').trim();
-  const rawApiKey = getConfigValue<string>(cfg, 'apiKey', '').trim();
+  const activeProfile = getActiveProfileName(cfg);
+  const profile = activeProfile ? readProfiles(cfg)[activeProfile] : {};
+  const read = <T>(key: string, fallback: T): T => getConfigValue<T>(cfg, key, fallback, profile);
+  const provider = read<Provider>('provider', 'openai');
+  const language = normalizeLanguage(read<string>('language', 'zh'));
+  const rawModel = read<string>('model', '').trim();
+  const rawSystemPrompt = read<string>('systemPrompt', '').trim();
+  const rawRuleTemplate = read<string>('ruleTemplate', '').trim();
+  const rawApiKey = read<string>('apiKey', '').trim();
+  const model = rawModel || DEFAULT_MODELS[provider];
+  const ollamaContextLength = clamp(Math.floor(read<number>('ollamaContextLength', 8192)), 2048, 131072);
 
   return {
+    activeProfile,
     language,
     provider,
-    model: rawModel || DEFAULT_MODELS[provider],
-    apiKey: resolveApiKey(provider, rawApiKey),
-    baseUrl: getConfigValue<string>(cfg, 'baseUrl', '').trim(),
-    customRequestPath: resolveRequestPath(provider, getConfigValue<string>(cfg, 'customRequestPath', '').trim()),
-    extraHeaders: parseHeaders(getConfigValue<string>(cfg, 'extraHeaders', '{}')),
-    temperature: clamp(getConfigValue<number>(cfg, 'temperature', 0.2), 0, 2),
-    maxTokens: parseOptionalMaxTokens(getConfigValue<number | null>(cfg, 'maxTokens', null)),
-    requestTimeoutMs: Math.max(3000, Math.floor(getConfigValue<number>(cfg, 'requestTimeoutMs', 25000))),
-    commandTimeoutMs: Math.max(3000, Math.floor(getConfigValue<number>(cfg, 'commandTimeoutMs', 12000))),
-    includeOnlyStaged: getConfigValue<boolean>(cfg, 'includeOnlyStaged', false),
-    maxChangedFiles: Math.max(1, Math.floor(getConfigValue<number>(cfg, 'maxChangedFiles', 30))),
-    truncateDiff: getConfigValue<boolean>(cfg, 'truncateDiff', true),
-    maxDiffBytes: Math.max(4096, Math.floor(getConfigValue<number>(cfg, 'maxDiffBytes', 120000))),
+    model,
+    apiKey: resolveApiKey(
+      provider,
+      rawApiKey,
+      activeProfile ? { id: profileKeyScope(activeProfile), configuredKey: readTrimmedString(profile.apiKey) } : undefined
+    ),
+    baseUrl: read<string>('baseUrl', '').trim(),
+    customRequestPath: resolveRequestPath(provider, read<string>('customRequestPath', '').trim()),
+    azureDeployment: read<string>('azureDeployment', '').trim(),
+    azureApiVersion: read<string>('azureApiVersion', '').trim() || DEFAULT_AZURE_API_VERSION,
+    extraHeaders: parseHeaders(read<string>('extraHeaders', '{}')),
+    fallbackProviders: parseFallbackProviders(read<unknown>('fallbackProviders', [])),
+    temperature: clamp(read<number>('temperature', 0.2), 0, 2),
+    maxTokens: parseOptionalMaxTokens(read<number | null>('maxTokens', null)),
+    ollamaContextLength,
+    requestTimeoutMs: Math.max(3000, Math.floor(read<number>('requestTimeoutMs', 25000))),
+    streamResponse: read<boolean>('streamResponse', true),
+    candidateCount: clamp(Math.floor(read<number>('candidateCount', 1)), 1, 5),
+    retryMaxAttempts: clamp(Math.floor(read<number>('retryMaxAttempts', 3)), 1, 10),
+    retryBaseDelayMs: clamp(Math.floor(read<number>('retryBaseDelayMs', 1000)), 100, 30000),
+    retryJitter: clamp(read<number>('retryJitter', 0.2), 0, 1),
+    commandTimeoutMs: Math.max(3000, Math.floor(read<number>('commandTimeoutMs', 12000))),
+    includeOnlyStaged: read<boolean>('includeOnlyStaged', false),
+    maxChangedFiles: Math.max(1, Math.floor(read<number>('maxChangedFiles', 30))),
+    untrackedMaxFileBytes: clamp(Math.floor(read<number>('untrackedMaxFileBytes', 16384)), 1024, 1048576),
+    untrackedLargeFileMode: parseUntrackedLargeFileMode(read<string>('untrackedLargeFileMode', 'excerpt')),
+    untrackedExcerptLines: clamp(Math.floor(read<number>('untrackedExcerptLines', 20)), 1, 500),
+    summarizeNewDirectories: read<boolean>('summarizeNewDirectories', true),
+    redactSecrets: read<boolean>('redactSecrets', true),
+    redactionPatterns: parseStringList(read<unknown>('redactionPatterns', [])),
+    redactionDenyPatterns: parseStringList(read<unknown>('redactionDenyPatterns', DEFAULT_REDACTION_DENY_PATTERNS)),
+    previewBeforeSend: read<boolean>('previewBeforeSend', false),
+    excludePatterns: parseStringList(read<unknown>('excludePatterns', DEFAULT_EXCLUDE_PATTERNS)),
+    respectGitAttributes: read<boolean>('respectGitAttributes', true),
+    truncateDiff: read<boolean>('truncateDiff', true),
+    maxDiffBytes: Math.max(4096, Math.floor(read<number>('maxDiffBytes', 120000))),
+    tokenBudget: read<boolean>('tokenBudget', true),
+    contextTokens: resolveContextTokens(provider, model, read<unknown>('modelContextTokens', {}), ollamaContextLength),
+    maxPromptTokens: Math.max(1024, Math.floor(read<number>('maxPromptTokens', 32000))),
+    largeChangeMode: read<boolean>('largeChangeMode', false),
+    largeChangeThresholdBytes: Math.max(4096, Math.floor(read<number>('largeChangeThresholdBytes', 120000))),
+    largeChangeConcurrency: clamp(Math.floor(read<number>('largeChangeConcurrency', 3)), 1, 8),
     systemPrompt: rawSystemPrompt || DEFAULT_PROMPTS[language].system,
     ruleTemplate: rawRuleTemplate || DEFAULT_PROMPTS[language].rule,
-    additionalRules: getConfigValue<string>(cfg, 'additionalRules', ''),
-    detailedOutput: getConfigValue<boolean>(cfg, 'detailedOutput', true),
-    copyToClipboard: getConfigValue<boolean>(cfg, 'copyToClipboard', false),
-    debugView: getConfigValue<boolean>(cfg, 'debugView', false)
+    additionalRules: read<string>('additionalRules', ''),
+    historyExampleCount: clamp(Math.floor(read<number>('historyExampleCount', 0)), 0, 20),
+    ticketPattern: read<string>('ticketPattern', DEFAULT_TICKET_PATTERN).trim(),
+    ticketPlacement: parseTicketPlacement(read<string>('ticketPlacement', 'none')),
+    commitlint: read<boolean>('commitlint', true),
+    commitlintMaxRepairs: clamp(Math.floor(read<number>('commitlintMaxRepairs', 2)), 0, 5),
+    detailedOutput: read<boolean>('detailedOutput', true),
+    messageFormat: parseMessageFormat(read<string>('messageFormat', 'gitmoji-conventional')),
+    messageTemplate: read<string>('messageTemplate', DEFAULT_MESSAGE_TEMPLATE).trim() || DEFAULT_MESSAGE_TEMPLATE,
+    copyToClipboard: read<boolean>('copyToClipboard', false),
+    confirmBeforeCommit: read<boolean>('confirmBeforeCommit', true),
+    commitSignOff: read<boolean>('commitSignOff', false),
+    debugView: read<boolean>('debugView', false)
   };
 }
 
@@ -182,13 +332,17 @@ export function resolveBaseUrl(config: ExtensionConfig): string {
     return stripTrailingSlashes(config.baseUrl);
   }
 
-  if (config.provider === 'custom') {
+  if (config.provider === 'custom' || config.provider === 'azure') {
     return '';
   }
 
   return DEFAULT_BASE_URLS[config.provider];
 }
 
+export function getProviders(): Provider[] {
+  return Object.keys(DEFAULT_MODELS) as Provider[];
+}
+
 export function getDefaultModel(provider: Provider): string {
   return DEFAULT_MODELS[provider];
 }
@@ -217,11 +371,43 @@ export function getSuggestedModels(provider: Provider): string[] {
   return [...unique];
 }
 
+export function getProfileNames(): string[] {
+  return Object.keys(readProfiles(vscode.workspace.getConfiguration('gitgathom')));
+}
+
+export function describeProfile(name: string): string {
+  const profile = readProfiles(vscode.workspace.getConfiguration('gitgathom'))[name];
+  if (!profile) {
+    return '';
+  }
+
+  const parts = [profile.provider, profile.model, profile.language].filter(
+    (part): part is string => typeof part === 'string' && part.length > 0
+  );
+  return parts.join(' · ');
+}
+
 export function normalizeLanguage(value: string | undefined): UiLanguage {
   return value === 'en' ? 'en' : 'zh';
 }
 
-function getConfigValue<T>(cfg: vscode.WorkspaceConfiguration, key: string, fallback: T): T {
+export function isProfileKey(key: string): boolean {
+  return (PROFILE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Resolves a setting in the order: active profile, workspace folder, workspace, user, default.
+ * Picking a profile is an explicit choice, so its values win over whatever the settings files hold.
+ */
+function getConfigValue<T>(
+  cfg: vscode.WorkspaceConfiguration,
+  key: string,
+  fallback: T,
+  profile: ProfileValues = {}
+): T {
+  if (profile[key] !== undefined) {
+    return profile[key] as T;
+  }
   const inspected = cfg.inspect<T>(key);
   if (!inspected) {
     return fallback;
@@ -238,6 +424,89 @@ function getConfigValue<T>(cfg: vscode.WorkspaceConfiguration, key: string, fall
   return inspected.defaultValue ?? fallback;
 }
 
+function getActiveProfileName(cfg: vscode.WorkspaceConfiguration): string {
+  const name = getConfigValue<string>(cfg, 'activeProfile', '').trim();
+  return name && readProfiles(cfg)[name] ? name : '';
+}
+
+function readProfiles(cfg: vscode.WorkspaceConfiguration): Record<string, ProfileValues> {
+  const raw = getConfigValue<unknown>(cfg, 'profiles', {});
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+
+  const output: Record<string, ProfileValues> = {};
+  for (const [name, entry] of Object.entries(raw)) {
+    if (!name.trim() || !entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      continue;
+    }
+
+    const values: ProfileValues = {};
+    for (const key of PROFILE_KEYS) {
+      const value = (entry as Record<string, unknown>)[key];
+      if (value === undefined) {
+        continue;
+      }
+      // extraHeaders is stored as a JSON string in settings but is more natural as an object in a profile.
+      values[key] = key === 'extraHeaders' && typeof value === 'object' ? JSON.stringify(value) : value;
+    }
+
+    if (values.provider !== undefined && (typeof values.provider !== 'string' || !isProvider(values.provider))) {
+      delete values.provider;
+    }
+
+    output[name] = values;
+  }
+
+  return output;
+}
+
+function resolveContextTokens(
+  provider: Provider,
+  model: string,
+  overrides: unknown,
+  ollamaContextLength: number
+): number {
+  if (overrides && typeof overrides === 'object' && !Array.isArray(overrides)) {
+    const override = (overrides as Record<string, unknown>)[model];
+    if (typeof override === 'number' && Number.isFinite(override) && override > 0) {
+      return Math.floor(override);
+    }
+  }
+
+  // Ollama truncates the prompt to num_ctx regardless of what the model supports.
+  if (provider === 'ollama') {
+    return ollamaContextLength;
+  }
+
+  return MODEL_CONTEXT_TOKENS[model] ?? DEFAULT_CONTEXT_TOKENS;
+}
+
+function parseStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function parseUntrackedLargeFileMode(value: string): UntrackedLargeFileMode {
+  return value === 'outline' || value === 'skip' ? value : 'excerpt';
+}
+
+function parseMessageFormat(value: string): MessageFormat {
+  return value === 'conventional' || value === 'angular' || value === 'plain' || value === 'custom'
+    ? value
+    : 'gitmoji-conventional';
+}
+
+function parseTicketPlacement(value: string): TicketPlacement {
+  return value === 'subject' || value === 'scope' || value === 'footer' ? value : 'none';
+}
+
 function parseOptionalMaxTokens(value: number | null): number | null {
   if (value === null || value === undefined) {
     return null;
@@ -255,7 +524,21 @@ function parseOptionalMaxTokens(value: number | null): number | null {
   return Math.max(16, normalized);
 }
 
-function resolveApiKey(provider: Provider, configuredKey: string): string {
+/**
+ * A profile or fallback entry may carry its own key (stored under its scope, or still in its settings), which
+ * wins over the provider-wide key so that two profiles on one provider can use different accounts.
+ */
+function resolveApiKey(provider: Provider, configuredKey: string, scope?: { id: string; configuredKey: string }): string {
+  const scopedKey = scope ? getScopedApiKey(scope.id) || scope.configuredKey : '';
+  if (scopedKey) {
+    return scopedKey;
+  }
+
+  const storedKey = getStoredApiKey(provider);
+  if (storedKey) {
+    return storedKey;
+  }
+
   if (configuredKey) {
     return configuredKey;
   }
@@ -275,22 +558,71 @@ function parseHeaders(raw: string): Record<string, string> {
   }
 
   try {
-    const parsed = JSON.parse(trimmed) as unknown;
-    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-      return {};
+    return normalizeHeaders(JSON.parse(trimmed) as unknown);
+  } catch {
+    return {};
+  }
+}
+
+function normalizeHeaders(parsed: unknown): Record<string, string> {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+
+  const output: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value === 'string') {
+      output[key] = value;
     }
+  }
 
-    const output: Record<string, string> = {};
-    for (const [key, value] of Object.entries(parsed)) {
-      if (typeof value === 'string') {
-        output[key] = value;
-      }
+  return output;
+}
+
+function parseFallbackProviders(raw: unknown): ProviderProfile[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const output: ProviderProfile[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
     }
 
-    return output;
-  } catch {
-    return {};
+    const value = entry as Record<string, unknown>;
+    const provider = value.provider;
+    if (typeof provider !== 'string' || !isProvider(provider)) {
+      continue;
+    }
+
+    const readString = (key: string) => (typeof value[key] === 'string' ? (value[key] as string).trim() : '');
+    const headers = value.extraHeaders;
+
+    output.push({
+      provider,
+      model: readString('model') || DEFAULT_MODELS[provider],
+      apiKey: resolveApiKey(provider, '', {
+        id: fallbackKeyScope(provider, readString('baseUrl')),
+        configuredKey: readString('apiKey')
+      }),
+      baseUrl: readString('baseUrl'),
+      customRequestPath: resolveRequestPath(provider, readString('customRequestPath')),
+      azureDeployment: readString('azureDeployment'),
+      azureApiVersion: readString('azureApiVersion') || DEFAULT_AZURE_API_VERSION,
+      extraHeaders: typeof headers === 'string' ? parseHeaders(headers) : normalizeHeaders(headers)
+    });
   }
+
+  return output;
+}
+
+function readTrimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function isProvider(value: string): value is Provider {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_MODELS, value);
 }
 
 function clamp(value: number, min: number, max: number): number {
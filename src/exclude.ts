@@ -0,0 +1,99 @@
+interface CompiledPattern {
+  regex: RegExp;
+  negated: boolean;
+}
+
+export type PathMatcher = (filePath: string) => boolean;
+
+/**
+ * Compiles gitignore-style patterns into a matcher for repository-relative file paths.
+ * Supports `*`, `?`, `**`, character classes, trailing `/` for directories, leading `/` or an
+ * inner `/` for root-anchored patterns, `#` comments and `!` negation (the last match wins).
+ */
+export function createPathMatcher(patterns: readonly string[]): PathMatcher {
+  const compiled = patterns
+    .map(compilePattern)
+    .filter((pattern): pattern is CompiledPattern => pattern !== undefined);
+
+  return (filePath: string) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    let excluded = false;
+
+    for (const pattern of compiled) {
+      if (pattern.regex.test(normalized)) {
+        excluded = !pattern.negated;
+      }
+    }
+
+    return excluded;
+  };
+}
+
+function compilePattern(raw: string): CompiledPattern | undefined {
+  let pattern = raw.trim();
+  if (!pattern || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  if (!pattern) {
+    return undefined;
+  }
+
+  const body = globToRegexSource(pattern);
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  // A pattern naming a directory also matches everything below it.
+  const suffix = directoryOnly ? '/.*$' : '(?:/.*)?$';
+
+  return {
+    regex: new RegExp(`${prefix}${body}${suffix}`),
+    negated
+  };
+}
+
+function globToRegexSource(glob: string): string {
+  let output = '';
+
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const followedBySlash = glob[i + 2] === '/';
+        output += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        output += '[^/]*';
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      output += '[^/]';
+      continue;
+    }
+
+    if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end > i + 1) {
+        const content = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        output += `[${content}]`;
+        i = end;
+        continue;
+      }
+    }
+
+    output += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+
+  return output;
+}
@@ -1,11 +1,35 @@
 import * as vscode from 'vscode';
-import { AiRequestError, generateCommitText } from './ai';
-import { readConfig } from './config';
-import { collectRepositoryChanges, getGitApi, pickRepository } from './git';
+import { AiRequestError, generateCommitText, isAzureDeploymentUrl, RequestCancelledError } from './ai';
+import { getProviders, readConfig } from './config';
+import {
+  collectRepositoryChanges,
+  commitChanges,
+  commitGroups,
+  getGitApi,
+  GitRepository,
+  pickRepository,
+  readAmendContext
+} from './git';
 import { providerLabel, t } from './i18n';
-import { buildPrompt } from './prompt';
+import { previewChange } from './preview';
+import { createProfileStatusBarItem, switchProfile, updateProfileStatusBarItem } from './profiles';
+import { buildAmendPrompt, buildCommitSplitPrompt, buildPrompt, buildRefinePrompt } from './prompt';
+import { redactSnapshot } from './redact';
+import { clearStoredApiKeys, initializeSecretStorage, migratePlaintextApiKeys } from './secrets';
 import { openSetupWizard } from './setupWizard';
-import { AiDebugSnapshot, ExtensionConfig, GenerateCommitResult, PromptPayload, UiLanguage } from './types';
+import { suggestCommitSplit } from './split';
+import { COMMIT_SPLIT_VIEW_ID, CommitSplitView } from './splitView';
+import { shouldSummarize, summarizeLargeChange } from './summarize';
+import {
+  AiDebugSnapshot,
+  ChangeSnapshot,
+  ExtensionConfig,
+  GenerateCommitResult,
+  PromptPayload,
+  RedactionReport,
+  SummaryRequestDebug,
+  UiLanguage
+} from './types';
 
 interface SetupIssueAction {
   kind: 'setup' | 'setting';
@@ -18,14 +42,28 @@ interface SetupIssue {
   actions: SetupIssueAction[];
 }
 
+type GenerateMode = 'fill' | 'amend' | 'commit';
+
+interface PreparedChanges {
+  snapshot: ChangeSnapshot;
+  redaction: RedactionReport;
+  summaryRequests?: SummaryRequestDebug[];
+}
+
 interface LastDebugState {
   prompt: PromptPayload;
   snapshot: AiDebugSnapshot;
 }
 
 let lastDebugState: LastDebugState | undefined;
+// Keyed by repository root: the prompt behind the last generated message, and the messages replaced by refinements.
+const generatedPrompts = new Map<string, PromptPayload>();
+const refineUndoStacks = new Map<string, string[]>();
+const commitSplitView = new CommitSplitView();
+
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+  await setUpApiKeyStorage(context);
 
-export function activate(context: vscode.ExtensionContext): void {
   const generateDisposable = vscode.commands.registerCommand(
     'gitgathom.generateCommitMessage',
     async (scmContext?: unknown) => {
@@ -41,14 +79,105 @@ export function activate(context: vscode.ExtensionContext): void {
     await showLastDebugReport();
   });
 
-  context.subscriptions.push(generateDisposable, setupDisposable, debugDisposable);
+  const clearKeysDisposable = vscode.commands.registerCommand('gitgathom.clearStoredKeys', async () => {
+    await runClearStoredKeys();
+  });
+
+  const generateAndCommitDisposable = vscode.commands.registerCommand(
+    'gitgathom.generateAndCommit',
+    async (scmContext?: unknown) => {
+      await runGenerateCommitMessage(scmContext, 'commit');
+    }
+  );
+
+  const amendDisposable = vscode.commands.registerCommand(
+    'gitgathom.generateAmendMessage',
+    async (scmContext?: unknown) => {
+      await runGenerateCommitMessage(scmContext, 'amend');
+    }
+  );
+
+  const refineDisposable = vscode.commands.registerCommand(
+    'gitgathom.refineCommitMessage',
+    async (scmContext?: unknown) => {
+      await runRefineCommitMessage(scmContext);
+    }
+  );
+
+  const undoRefineDisposable = vscode.commands.registerCommand(
+    'gitgathom.undoRefinement',
+    async (scmContext?: unknown) => {
+      await runUndoRefinement(scmContext);
+    }
+  );
+
+  const splitTreeDisposable = vscode.window.registerTreeDataProvider(COMMIT_SPLIT_VIEW_ID, commitSplitView);
+
+  const suggestSplitDisposable = vscode.commands.registerCommand(
+    'gitgathom.suggestCommitSplit',
+    async (scmContext?: unknown) => {
+      await runSuggestCommitSplit(scmContext);
+    }
+  );
+
+  const applySplitDisposable = vscode.commands.registerCommand('gitgathom.applyCommitSplit', async () => {
+    await runApplyCommitSplit();
+  });
+
+  const discardSplitDisposable = vscode.commands.registerCommand('gitgathom.discardCommitSplit', async () => {
+    await commitSplitView.clear();
+  });
+
+  const profileStatusBarItem = createProfileStatusBarItem();
+  updateProfileStatusBarItem(profileStatusBarItem, readConfig());
+
+  const switchProfileDisposable = vscode.commands.registerCommand('gitgathom.switchProfile', async () => {
+    const config = readConfig();
+    if (await switchProfile(config.language, config.activeProfile)) {
+      const updated = readConfig();
+      vscode.window.showInformationMessage(
+        t(updated.language, 'profileSwitched', {
+          profile: updated.activeProfile || t(updated.language, 'profileDefaultLabel')
+        })
+      );
+    }
+  });
+
+  const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('gitgathom')) {
+      updateProfileStatusBarItem(profileStatusBarItem, readConfig());
+    }
+  });
+
+  context.subscriptions.push(
+    generateDisposable,
+    setupDisposable,
+    debugDisposable,
+    switchProfileDisposable,
+    clearKeysDisposable,
+    generateAndCommitDisposable,
+    amendDisposable,
+    refineDisposable,
+    undoRefineDisposable,
+    commitSplitView,
+    splitTreeDisposable,
+    suggestSplitDisposable,
+    applySplitDisposable,
+    discardSplitDisposable,
+    profileStatusBarItem,
+    configurationDisposable
+  );
 }
 
 export function deactivate(): void {
   // No resources to dispose.
 }
 
-async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
+/**
+ * Generates a message for the pending changes. `amend` produces a replacement for the HEAD message
+ * covering HEAD's changes plus the staged ones; `commit` also runs `git commit` with the result.
+ */
+async function runGenerateCommitMessage(scmContext?: unknown, mode: GenerateMode = 'fill'): Promise<void> {
   const config = readConfig();
 
   try {
@@ -58,16 +187,8 @@ async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
       return;
     }
 
-    const gitApi = await getGitApi();
-
-    if (!gitApi) {
-      vscode.window.showErrorMessage(t(config.language, 'gitUnavailable'));
-      return;
-    }
-
-    const repository = pickRepository(gitApi.repositories, scmContext);
+    const repository = await resolveRepository(config.language, scmContext);
     if (!repository) {
-      vscode.window.showErrorMessage(t(config.language, 'noRepo'));
       return;
     }
 
@@ -75,22 +196,51 @@ async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
       {
         location: vscode.ProgressLocation.Notification,
         title: t(config.language, 'progressTitle'),
-        cancellable: false
+        cancellable: true
       },
-      async () => {
-        const snapshot = await collectRepositoryChanges(repository.rootUri.fsPath, config);
-        if (!snapshot.status.trim()) {
-          vscode.window.showInformationMessage(t(config.language, 'noChanges'));
-          return;
-        }
-
-        const prompt = buildPrompt(snapshot, config);
+      async (progress, token) => {
+        const rootPath = repository.rootUri.fsPath;
+        const amendContext = mode === 'amend' ? await readAmendContext(rootPath, config) : undefined;
+        const previousInput = repository.inputBox.value;
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        let prompt: PromptPayload = { systemPrompt: '', userPrompt: '' };
+        let redaction: RedactionReport | undefined;
+        let summaryRequests: SummaryRequestDebug[] | undefined;
         let result: GenerateCommitResult;
 
         try {
-          result = await generateCommitText(prompt, config);
+          const prepared = await prepareChanges(
+            rootPath,
+            config,
+            progress,
+            abortController.signal,
+            amendContext?.baseRevision
+          );
+          if (!prepared) {
+            return;
+          }
+          ({ redaction, summaryRequests } = prepared);
+
+          prompt = amendContext
+            ? buildAmendPrompt(prepared.snapshot, amendContext.headMessage, config)
+            : buildPrompt(prepared.snapshot, config);
+          result = await generateCommitText(prompt, config, {
+            signal: abortController.signal,
+            onPartialText: partialText => {
+              repository.inputBox.value = partialText;
+            }
+          });
+          // A request that finished while being cancelled must not be used.
+          if (abortController.signal.aborted) {
+            throw new RequestCancelledError();
+          }
         } catch (error) {
+          repository.inputBox.value = previousInput;
+
           if (error instanceof AiRequestError) {
+            error.debug.summaryRequests ??= summaryRequests;
+            error.debug.redaction = redaction;
             lastDebugState = {
               prompt,
               snapshot: error.debug
@@ -101,17 +251,42 @@ async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
             }
           }
 
+          if (abortController.signal.aborted) {
+            vscode.window.showInformationMessage(t(config.language, 'generationCancelled'));
+            return;
+          }
+
           throw error;
+        } finally {
+          cancellation.dispose();
         }
 
-        const commitMessage = result.commitMessage;
+        result.debug.summaryRequests = summaryRequests;
+        result.debug.redaction = redaction;
 
         lastDebugState = {
           prompt,
           snapshot: result.debug
         };
 
+        const commitMessage =
+          result.candidates.length > 1
+            ? await pickCandidate(config.language, result.candidates)
+            : result.commitMessage;
+        if (commitMessage === undefined) {
+          vscode.window.showInformationMessage(t(config.language, 'candidateNotSelected'));
+          return;
+        }
+
         repository.inputBox.value = commitMessage;
+        generatedPrompts.set(rootPath, prompt);
+        const lintViolations = result.debug.commitlint?.violations ?? [];
+        if (lintViolations.length > 0) {
+          vscode.window.showWarningMessage(
+            t(config.language, 'commitlintViolations', { violations: lintViolations.join('; ') })
+          );
+        }
+        refineUndoStacks.delete(rootPath);
 
         if (config.copyToClipboard) {
           await vscode.env.clipboard.writeText(commitMessage);
@@ -124,7 +299,20 @@ async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
           });
         }
 
-        vscode.window.showInformationMessage(t(config.language, 'generated'));
+        if (result.usedFallback) {
+          vscode.window.showInformationMessage(
+            t(config.language, 'generatedWithFallback', {
+              provider: `${providerLabel(config.language, result.provider)} (${result.model})`
+            })
+          );
+        } else if (mode !== 'commit') {
+          vscode.window.showInformationMessage(t(config.language, 'generated'));
+        }
+
+        if (mode === 'commit') {
+          progress.report({ message: t(config.language, 'progressCommitting') });
+          await commitGeneratedMessage(config, repository, commitMessage);
+        }
       }
     );
   } catch (error) {
@@ -133,6 +321,492 @@ async function runGenerateCommitMessage(scmContext?: unknown): Promise<void> {
   }
 }
 
+/**
+ * Commits with the generated message after an optional confirmation. Hooks and commit signing run
+ * as configured in git; when they fail the message stays in the input box and git's output is shown.
+ */
+async function commitGeneratedMessage(
+  config: ExtensionConfig,
+  repository: GitRepository,
+  commitMessage: string
+): Promise<void> {
+  if (config.confirmBeforeCommit) {
+    const commitAction = t(config.language, 'actionCommit');
+    const confirmed = await vscode.window.showInformationMessage(
+      t(config.language, config.includeOnlyStaged ? 'commitConfirmStaged' : 'commitConfirmAll'),
+      { modal: true, detail: commitMessage },
+      commitAction
+    );
+    if (confirmed !== commitAction) {
+      vscode.window.showInformationMessage(t(config.language, 'commitSkipped'));
+      return;
+    }
+  }
+
+  try {
+    const output = await commitChanges(repository.rootUri.fsPath, commitMessage, config, {
+      stageAll: !config.includeOnlyStaged,
+      signOff: config.commitSignOff
+    });
+    repository.inputBox.value = '';
+    vscode.window.showInformationMessage(t(config.language, 'committed', { summary: output.split('\n')[0] }));
+  } catch (error) {
+    repository.inputBox.value = commitMessage;
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(t(config.language, 'commitFailed'), { modal: true, detail: message });
+  }
+}
+
+/**
+ * Asks the model to split the pending changes into several commits and shows the plan in the
+ * Source Control view; nothing is staged or committed until the plan is applied.
+ */
+async function runSuggestCommitSplit(scmContext?: unknown): Promise<void> {
+  const config = readConfig();
+
+  try {
+    const setupIssue = getSetupIssue(config);
+    if (setupIssue) {
+      await promptForSetup(config.language, setupIssue);
+      return;
+    }
+
+    const repository = await resolveRepository(config.language, scmContext);
+    if (!repository) {
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: t(config.language, 'splitProgressTitle'),
+        cancellable: true
+      },
+      async (_progress, token) => {
+        const rootPath = repository.rootUri.fsPath;
+        const collected = await collectRepositoryChanges(rootPath, config);
+        if (collected.changes.length + collected.excludedFiles.length < 2) {
+          vscode.window.showInformationMessage(t(config.language, 'splitNotEnoughChanges'));
+          return;
+        }
+
+        const { snapshot, report: redaction } = redactSnapshot(collected, config);
+        if (redaction.invalidPatterns.length > 0) {
+          vscode.window.showWarningMessage(
+            t(config.language, 'invalidRedactionPatterns', { patterns: redaction.invalidPatterns.join(', ') })
+          );
+        }
+
+        const prompt = buildCommitSplitPrompt(snapshot, config);
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        try {
+          const split = await suggestCommitSplit(prompt, snapshot, config, { signal: abortController.signal });
+          if (abortController.signal.aborted) {
+            throw new RequestCancelledError();
+          }
+          split.debug.redaction = redaction;
+          lastDebugState = { prompt, snapshot: split.debug };
+
+          await commitSplitView.show({
+            repositoryPath: rootPath,
+            groups: split.groups,
+            stageAll: !config.includeOnlyStaged
+          });
+          if (split.unassignedFiles.length > 0) {
+            vscode.window.showWarningMessage(
+              t(config.language, 'splitUnassignedFiles', { files: split.unassignedFiles.join(', ') })
+            );
+          }
+        } catch (error) {
+          if (error instanceof AiRequestError) {
+            error.debug.redaction = redaction;
+            lastDebugState = { prompt, snapshot: error.debug };
+          }
+
+          if (abortController.signal.aborted) {
+            vscode.window.showInformationMessage(t(config.language, 'generationCancelled'));
+            return;
+          }
+
+          throw error;
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`${t(config.language, 'failedPrefix')}${message}`);
+  }
+}
+
+/** Stages and commits each group of the pending split plan in order after a confirmation. */
+async function runApplyCommitSplit(): Promise<void> {
+  const config = readConfig();
+  const plan = commitSplitView.current;
+  if (!plan) {
+    vscode.window.showInformationMessage(t(config.language, 'splitNoPlan'));
+    return;
+  }
+
+  const commitAction = t(config.language, 'actionCommit');
+  const confirmed = await vscode.window.showInformationMessage(
+    t(config.language, plan.stageAll ? 'splitConfirmAll' : 'splitConfirmStaged', { count: String(plan.groups.length) }),
+    { modal: true, detail: plan.groups.map((group, index) => `${index + 1}. ${group.message.split('\n')[0]}`).join('\n') },
+    commitAction
+  );
+  if (confirmed !== commitAction) {
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: t(config.language, 'progressCommitting')
+    },
+    async progress => {
+      let completed = 0;
+      try {
+        await commitGroups(plan.repositoryPath, plan.groups, config, {
+          stageAll: plan.stageAll,
+          signOff: config.commitSignOff,
+          onCommitted: (done, total) => {
+            completed = done;
+            progress.report({
+              message: t(config.language, 'splitProgressCommitted', { completed: String(done), total: String(total) })
+            });
+          }
+        });
+        await commitSplitView.clear();
+        vscode.window.showInformationMessage(t(config.language, 'splitCommitted', { count: String(completed) }));
+      } catch (error) {
+        // Keep the groups that were not committed so the plan can be applied again after fixing the cause.
+        await commitSplitView.show({ ...plan, groups: plan.groups.slice(completed) });
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(
+          t(config.language, 'splitCommitFailed', { completed: String(completed), total: String(plan.groups.length) }),
+          { modal: true, detail: message }
+        );
+      }
+    }
+  );
+}
+
+async function runRefineCommitMessage(scmContext?: unknown): Promise<void> {
+  const config = { ...readConfig(), candidateCount: 1 };
+
+  try {
+    const setupIssue = getSetupIssue(config);
+    if (setupIssue) {
+      await promptForSetup(config.language, setupIssue);
+      return;
+    }
+
+    const repository = await resolveRepository(config.language, scmContext);
+    if (!repository) {
+      return;
+    }
+
+    const previousMessage = repository.inputBox.value.trim();
+    if (!previousMessage) {
+      vscode.window.showInformationMessage(t(config.language, 'refineNothingToRefine'));
+      return;
+    }
+
+    const instruction = await pickRefineInstruction(config.language);
+    if (!instruction) {
+      return;
+    }
+
+    const rootPath = repository.rootUri.fsPath;
+    const refined = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: t(config.language, 'refineProgressTitle'),
+        cancellable: true
+      },
+      async (progress, token): Promise<boolean> => {
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        let basePrompt = generatedPrompts.get(rootPath);
+        let prompt: PromptPayload = { systemPrompt: '', userPrompt: '' };
+        let prepared: PreparedChanges | undefined;
+        let result: GenerateCommitResult;
+
+        try {
+          if (!basePrompt) {
+            // Nothing was generated in this session, so the changes go through the same collection,
+            // preview and summarizing as a generation before any of them is sent.
+            prepared = await prepareChanges(rootPath, config, progress, abortController.signal);
+            if (!prepared) {
+              return false;
+            }
+            basePrompt = buildPrompt(prepared.snapshot, config);
+          }
+
+          prompt = buildRefinePrompt(basePrompt, previousMessage, instruction, config);
+          result = await generateCommitText(prompt, config, {
+            signal: abortController.signal,
+            onPartialText: partialText => {
+              repository.inputBox.value = partialText;
+            }
+          });
+          if (abortController.signal.aborted) {
+            throw new RequestCancelledError();
+          }
+        } catch (error) {
+          repository.inputBox.value = previousMessage;
+
+          if (error instanceof AiRequestError) {
+            error.debug.summaryRequests ??= prepared?.summaryRequests;
+            error.debug.redaction ??= prepared?.redaction;
+            lastDebugState = { prompt, snapshot: error.debug };
+            if (config.debugView) {
+              await openDebugDocument(lastDebugState);
+            }
+          }
+
+          if (abortController.signal.aborted) {
+            vscode.window.showInformationMessage(t(config.language, 'generationCancelled'));
+            return false;
+          }
+
+          throw error;
+        } finally {
+          cancellation.dispose();
+        }
+
+        result.debug.summaryRequests = prepared?.summaryRequests;
+        result.debug.redaction = prepared?.redaction;
+        repository.inputBox.value = result.commitMessage;
+        generatedPrompts.set(rootPath, basePrompt);
+        refineUndoStacks.set(rootPath, [...(refineUndoStacks.get(rootPath) ?? []), previousMessage]);
+        lastDebugState = { prompt, snapshot: result.debug };
+
+        if (config.copyToClipboard) {
+          await vscode.env.clipboard.writeText(result.commitMessage);
+        }
+
+        if (config.debugView) {
+          await openDebugDocument(lastDebugState);
+        }
+
+        return true;
+      }
+    );
+
+    if (!refined) {
+      return;
+    }
+
+    const undo = t(config.language, 'actionUndo');
+    if ((await vscode.window.showInformationMessage(t(config.language, 'refined'), undo)) === undo) {
+      undoRefinement(config.language, repository);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`${t(config.language, 'failedPrefix')}${message}`);
+  }
+}
+
+/**
+ * Collects the changes a commit message prompt is built from, redacts them, shows the preview when
+ * `previewBeforeSend` is on and summarizes large changes. Returns undefined, after telling the user
+ * why, when there is nothing to send.
+ */
+async function prepareChanges(
+  rootPath: string,
+  config: ExtensionConfig,
+  progress: vscode.Progress<{ message?: string }>,
+  signal: AbortSignal,
+  baseRevision?: string
+): Promise<PreparedChanges | undefined> {
+  const collected = await collectRepositoryChanges(rootPath, config, baseRevision);
+  const hasChanges = baseRevision
+    ? collected.changes.length > 0 || collected.excludedFiles.length > 0
+    : collected.status.trim().length > 0;
+  if (!hasChanges) {
+    vscode.window.showInformationMessage(t(config.language, 'noChanges'));
+    return undefined;
+  }
+
+  const { snapshot: redacted, report: redaction } = redactSnapshot(collected, config);
+  if (redaction.invalidPatterns.length > 0) {
+    vscode.window.showWarningMessage(
+      t(config.language, 'invalidRedactionPatterns', { patterns: redaction.invalidPatterns.join(', ') })
+    );
+  }
+
+  const snapshot = config.previewBeforeSend ? await previewChange(redacted, config) : redacted;
+  if (!snapshot) {
+    vscode.window.showInformationMessage(t(config.language, 'previewCancelled'));
+    return undefined;
+  }
+
+  if (!shouldSummarize(snapshot, config)) {
+    return { snapshot, redaction };
+  }
+
+  const summarized = await summarizeLargeChange(snapshot, config, {
+    signal,
+    onProgress: (completed, total) => {
+      progress.report({
+        message: t(config.language, 'progressSummarizing', {
+          completed: String(completed),
+          total: String(total)
+        })
+      });
+    }
+  });
+  progress.report({ message: '' });
+  return { snapshot: summarized.snapshot, redaction, summaryRequests: summarized.requests };
+}
+
+async function runUndoRefinement(scmContext?: unknown): Promise<void> {
+  const language = readConfig().language;
+  const repository = await resolveRepository(language, scmContext);
+  if (repository) {
+    undoRefinement(language, repository);
+  }
+}
+
+function undoRefinement(language: UiLanguage, repository: GitRepository): void {
+  const stack = refineUndoStacks.get(repository.rootUri.fsPath);
+  const previous = stack?.pop();
+  if (previous === undefined) {
+    vscode.window.showInformationMessage(t(language, 'refineNothingToUndo'));
+    return;
+  }
+
+  repository.inputBox.value = previous;
+}
+
+async function pickRefineInstruction(language: UiLanguage): Promise<string | undefined> {
+  const zh = language === 'zh';
+  const items: Array<vscode.QuickPickItem & { instruction?: string; input?: 'typeScope' | 'custom' }> = [
+    { label: t(language, 'refineShorter'), instruction: zh ? '更简短、更精炼。' : 'Make it shorter and more concise.' },
+    {
+      label: t(language, 'refineMoreDetail'),
+      instruction: zh ? '补充更多具体改动的细节。' : 'Add more detail about the concrete changes.'
+    },
+    {
+      label: t(language, 'refineSwitchLanguage'),
+      instruction: zh ? 'Rewrite it in English.' : '改用简体中文重写。'
+    },
+    { label: t(language, 'refineChangeTypeScope'), input: 'typeScope' },
+    { label: t(language, 'refineCustom'), input: 'custom' }
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: t(language, 'refinePickPlaceholder'),
+    ignoreFocusOut: true
+  });
+  if (!picked) {
+    return undefined;
+  }
+
+  if (picked.instruction) {
+    return picked.instruction;
+  }
+
+  const isTypeScope = picked.input === 'typeScope';
+  const value = (
+    await vscode.window.showInputBox({
+      prompt: t(language, isTypeScope ? 'refineTypeScopePrompt' : 'refineCustomPrompt'),
+      placeHolder: isTypeScope ? 'fix(api)' : '',
+      ignoreFocusOut: true,
+      validateInput: input => (input.trim() ? undefined : t(language, 'refineInstructionRequired'))
+    })
+  )?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  if (!isTypeScope) {
+    return value;
+  }
+
+  return zh ? `将标题中的类型与范围改为 "${value}"。` : `Change the commit type and scope in the header to "${value}".`;
+}
+
+async function resolveRepository(language: UiLanguage, scmContext?: unknown): Promise<GitRepository | undefined> {
+  const gitApi = await getGitApi();
+  if (!gitApi) {
+    vscode.window.showErrorMessage(t(language, 'gitUnavailable'));
+    return undefined;
+  }
+
+  const repository = pickRepository(gitApi.repositories, scmContext);
+  if (!repository) {
+    vscode.window.showErrorMessage(t(language, 'noRepo'));
+    return undefined;
+  }
+
+  return repository;
+}
+
+async function pickCandidate(language: UiLanguage, candidates: string[]): Promise<string | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    candidates.map(candidate => {
+      const [header, ...body] = candidate.split('\n');
+      return {
+        label: header,
+        detail: body.map(line => line.trim()).filter(Boolean).join(' '),
+        candidate
+      };
+    }),
+    {
+      placeHolder: t(language, 'candidatePickPlaceholder', { count: String(candidates.length) }),
+      ignoreFocusOut: true,
+      matchOnDetail: true
+    }
+  );
+
+  return picked?.candidate;
+}
+
+/** Loads stored keys and migrates plaintext ones; a keyring failure must not keep the commands from registering. */
+async function setUpApiKeyStorage(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    await initializeSecretStorage(context, getProviders());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showWarningMessage(`${t(readConfig().language, 'secretStorageUnavailable')}${message}`);
+    return;
+  }
+
+  await migrateApiKeys();
+}
+
+async function migrateApiKeys(): Promise<void> {
+  try {
+    const migrated = await migratePlaintextApiKeys();
+    if (migrated > 0) {
+      vscode.window.showInformationMessage(t(readConfig().language, 'apiKeysMigrated'));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showWarningMessage(`${t(readConfig().language, 'apiKeysMigrationFailed')}${message}`);
+  }
+}
+
+async function runClearStoredKeys(): Promise<void> {
+  const language = readConfig().language;
+  const confirm = t(language, 'clearKeysConfirmAction');
+  const selected = await vscode.window.showWarningMessage(
+    t(language, 'clearKeysConfirm'),
+    { modal: true },
+    confirm
+  );
+  if (selected !== confirm) {
+    return;
+  }
+
+  const cleared = await clearStoredApiKeys();
+  vscode.window.showInformationMessage(t(language, 'clearKeysDone', { count: String(cleared) }));
+}
+
 async function showLastDebugReport(): Promise<void> {
   if (!lastDebugState) {
     vscode.window.showInformationMessage('No AI debug report yet. Generate a commit message first.');
@@ -166,7 +840,73 @@ function renderDebugReport(state: LastDebugState): string {
   lines.push(`- Model: ${snapshot.model}`);
   lines.push(`- Endpoint: ${snapshot.endpoint}`);
   lines.push(`- HTTP Status: ${snapshot.responseStatus ?? '(no response)'}`);
+  if (snapshot.streamed) {
+    lines.push(`- Streamed: yes (${snapshot.streamChunkCount ?? 0} chunks)`);
+  }
   lines.push('');
+  if (snapshot.previousProviderAttempts && snapshot.previousProviderAttempts.length > 0) {
+    lines.push('## Provider Chain');
+    lines.push('| # | Provider | Model | Endpoint | Status | Error |');
+    lines.push('| --- | --- | --- | --- | --- | --- |');
+    [...snapshot.previousProviderAttempts, snapshot].forEach((attempt, index) => {
+      const error = attempt === snapshot && !attempt.error ? '(succeeded)' : attempt.error ?? '-';
+      lines.push(
+        `| ${index + 1} | ${attempt.provider} | ${attempt.model} | ${attempt.endpoint || '-'} | ${
+          attempt.responseStatus ?? '-'
+        } | ${error.replace(/\|/g, '\\|')} |`
+      );
+    });
+    lines.push('');
+  }
+
+  if (snapshot.attempts && snapshot.attempts.length > 0) {
+    lines.push('## Attempts');
+    lines.push('| # | Started | Duration (ms) | Status | Error | Retry delay (ms) |');
+    lines.push('| --- | --- | --- | --- | --- | --- |');
+    for (const attempt of snapshot.attempts) {
+      lines.push(
+        `| ${attempt.attempt} | ${attempt.startedAt} | ${attempt.durationMs} | ${attempt.status ?? '-'} | ${
+          attempt.error?.replace(/\|/g, '\\|') ?? '-'
+        } | ${attempt.retryDelayMs ?? '-'} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (snapshot.redaction) {
+    const { entries, deniedFiles } = snapshot.redaction;
+    lines.push('## Redactions');
+    if (entries.length === 0 && deniedFiles.length === 0) {
+      lines.push('(nothing redacted)');
+    }
+    if (deniedFiles.length > 0) {
+      lines.push(`- Denied files (not sent): ${deniedFiles.join(', ')}`);
+    }
+    if (entries.length > 0) {
+      lines.push('| File | Kind | Placeholder | Occurrences | Preview |');
+      lines.push('| --- | --- | --- | --- | --- |');
+      for (const entry of entries) {
+        lines.push(
+          `| ${entry.file} | ${entry.kind} | ${entry.placeholder} | ${entry.occurrences} | ${entry.preview.replace(/\|/g, '\\|')} |`
+        );
+      }
+    }
+    lines.push('');
+  }
+
+  if (snapshot.commitlint) {
+    const { source, initialViolations, repairs, violations, repairError } = snapshot.commitlint;
+    lines.push('## Commitlint');
+    lines.push(`- Config: ${source}`);
+    lines.push(`- Repair requests: ${repairs}`);
+    lines.push(`- Initial violations: ${initialViolations.length > 0 ? initialViolations.join('; ') : '(none)'}`);
+    lines.push(`- Remaining violations: ${violations.length > 0 ? violations.join('; ') : '(none)'}`);
+    if (repairError) {
+      lines.push(`- Repair request failed: ${repairError}`);
+    }
+    lines.push('');
+  }
+
   lines.push('## Prompt Input');
   lines.push('### systemPrompt');
   lines.push('```text');
@@ -195,8 +935,8 @@ function renderDebugReport(state: LastDebugState): string {
   lines.push(JSON.stringify(snapshot.responseHeaders ?? {}, null, 2));
   lines.push('```');
   lines.push('');
-  lines.push('### Raw Body');
-  lines.push('```json');
+  lines.push(snapshot.streamed ? '### Raw Event Stream' : '### Raw Body');
+  lines.push(snapshot.streamed ? '```text' : '```json');
   lines.push(snapshot.responseBody || '(empty)');
   lines.push('```');
   lines.push('');
@@ -205,6 +945,16 @@ function renderDebugReport(state: LastDebugState): string {
   lines.push(snapshot.extractedText || '(empty)');
   lines.push('```');
   lines.push('');
+  if (snapshot.candidates && snapshot.candidates.length > 1) {
+    lines.push('### Candidates');
+    snapshot.candidates.forEach((candidate, index) => {
+      lines.push(`#### ${index + 1}`);
+      lines.push('```text');
+      lines.push(candidate);
+      lines.push('```');
+    });
+    lines.push('');
+  }
   lines.push('### Final Commit Message');
   lines.push('```text');
   lines.push(snapshot.normalizedCommitMessage || '(not produced)');
@@ -218,6 +968,26 @@ function renderDebugReport(state: LastDebugState): string {
     lines.push('```');
   }
 
+  if (snapshot.summaryRequests && snapshot.summaryRequests.length > 0) {
+    lines.push('');
+    lines.push('## Large-change Summaries');
+    snapshot.summaryRequests.forEach((request, index) => {
+      const { debug } = request;
+      lines.push('');
+      lines.push(`### Group ${index + 1}`);
+      lines.push(`- Files: ${request.files.join(', ')}`);
+      lines.push(`- Endpoint: ${debug.endpoint}`);
+      lines.push(`- HTTP Status: ${debug.responseStatus ?? '(no response)'}`);
+      lines.push(`- Attempts: ${debug.attempts?.length ?? 0}`);
+      if (debug.error) {
+        lines.push(`- Error: ${debug.error}`);
+      }
+      lines.push('```text');
+      lines.push(debug.extractedText || '(empty)');
+      lines.push('```');
+    });
+  }
+
   return lines.join('\n');
 }
 
@@ -237,7 +1007,7 @@ async function runSetupWizard(): Promise<void> {
 function getSetupIssue(config: ExtensionConfig): SetupIssue | undefined {
   const provider = providerLabel(config.language, config.provider);
 
-  if (config.provider === 'custom' && !config.baseUrl.trim()) {
+  if ((config.provider === 'custom' || config.provider === 'azure') && !config.baseUrl.trim()) {
     return {
       message: t(config.language, 'setupMissingBaseUrl', { provider }),
       actions: [
@@ -249,12 +1019,30 @@ function getSetupIssue(config: ExtensionConfig): SetupIssue | undefined {
     };
   }
 
+  if (config.provider === 'azure' && !config.azureDeployment && !isAzureDeploymentUrl(config.baseUrl)) {
+    return {
+      message: t(config.language, 'setupMissingAzureDeployment', { provider }),
+      actions: [
+        { kind: 'setup', label: t(config.language, 'actionOpenSetup') },
+        { kind: 'setting', label: t(config.language, 'actionOpenSettings'), setting: 'gitgathom' },
+        {
+          kind: 'setting',
+          label: t(config.language, 'actionConfigureAzureDeployment'),
+          setting: 'gitgathom.azureDeployment'
+        }
+      ]
+    };
+  }
+
   const hasCredential =
-    config.provider === 'gemini'
+    config.provider === 'ollama'
+      ? true
+      : config.provider === 'gemini'
       ? Boolean(config.apiKey)
       : Boolean(config.apiKey) ||
         hasHeader(config.extraHeaders, 'authorization') ||
-        hasHeader(config.extraHeaders, 'x-api-key');
+        hasHeader(config.extraHeaders, 'x-api-key') ||
+        hasHeader(config.extraHeaders, 'api-key');
 
   if (!hasCredential) {
     return {
@@ -2,7 +2,20 @@ import { execFile } from "node:child_process";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
 import * as vscode from "vscode";
-import { ChangeSnapshot, ExtensionConfig } from "./types";
+import { hasTypedHeader, loadCommitlintRules } from "./commitlint";
+import { createPathMatcher } from "./exclude";
+import {
+  ChangeArea,
+  ChangeKind,
+  ChangeSnapshot,
+  CommitGroup,
+  ExcludedFile,
+  ExclusionReason,
+  ExtensionConfig,
+  FileChange,
+  FileDiff
+} from "./types";
+import { countNewDirectoryFiles, looksBinary, readUntrackedFileContent } from "./untracked";
 
 interface GitExtension {
   readonly enabled: boolean;
@@ -21,6 +34,26 @@ export interface GitRepository {
 }
 
 const GIT_MAX_BUFFER_BYTES = 64 * 1024 * 1024;
+// Stays well below the 32K command line limit on Windows.
+const MAX_PATHSPEC_CHARS = 24_000;
+const MAX_LINE_COUNT_BYTES = 8 * 1024 * 1024;
+// Commit hooks (linters, test runs) and signing prompts can take far longer than plain git commands.
+const MIN_COMMIT_TIMEOUT_MS = 5 * 60 * 1000;
+// Asked for generously so that enough examples remain after bot and fixup commits are skipped.
+const HISTORY_OVERFETCH_FACTOR = 3;
+const MAX_HISTORY_EXAMPLE_CHARS = 600;
+const BOT_AUTHOR_PATTERN = /\[bot\]|\bbots?\b|dependabot|renovate|github-actions|greenkeeper|semantic-release/i;
+const AUTOSQUASH_PATTERN = /^(fixup|squash|amend)! /;
+const NULL_MODE = "000000";
+const SUBMODULE_MODE = "160000";
+const CHANGE_KINDS: Record<string, ChangeKind> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "type-changed"
+};
 
 export async function getGitApi(): Promise<GitAPI | undefined> {
   const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
@@ -61,86 +94,716 @@ export function pickRepository(repositories: readonly GitRepository[], scmContex
   return repositories[0];
 }
 
+export interface AmendContext {
+  /** Parent of HEAD, or the empty tree when HEAD is a root commit. */
+  baseRevision: string;
+  headMessage: string;
+}
+
+/** Reads what `git commit --amend` would replace: HEAD's message and the revision it is based on. */
+export async function readAmendContext(repositoryPath: string, config: ExtensionConfig): Promise<AmendContext> {
+  const headMessage = await runGit(["log", "-1", "--format=%B", "HEAD"], repositoryPath, config.commandTimeoutMs);
+
+  let baseRevision: string;
+  try {
+    baseRevision = await runGit(["rev-parse", "--verify", "--quiet", "HEAD^"], repositoryPath, config.commandTimeoutMs);
+  } catch {
+    baseRevision = await runGit(["hash-object", "-t", "tree", "--stdin"], repositoryPath, config.commandTimeoutMs, "");
+  }
+
+  return { baseRevision, headMessage };
+}
+
+/**
+ * Collects the working tree changes. With `baseRevision` (amend mode) the staged side is diffed
+ * against that revision instead of HEAD, so it covers HEAD's own changes plus the staged ones,
+ * and unstaged and untracked files are left out because `--amend` would not include them.
+ */
 export async function collectRepositoryChanges(
   repositoryPath: string,
-  config: ExtensionConfig
+  config: ExtensionConfig,
+  baseRevision?: string
 ): Promise<ChangeSnapshot> {
-  const status = await runGit(["status", "--short"], repositoryPath, config.commandTimeoutMs);
-
-  const stagedFiles = parseLines(
-    await runGit(["diff", "--name-only", "--staged"], repositoryPath, config.commandTimeoutMs)
-  );
-  const unstagedFiles = config.includeOnlyStaged
-    ? []
-    : parseLines(await runGit(["diff", "--name-only"], repositoryPath, config.commandTimeoutMs));
-  const untrackedFiles = config.includeOnlyStaged
+  // In amend mode the short status would list files the amended commit does not contain.
+  const status = baseRevision
+    ? ""
+    : formatShortStatus(await runGitRaw(["status", "--porcelain", "-z"], repositoryPath, config.commandTimeoutMs));
+
+  const stagedOnly = config.includeOnlyStaged || baseRevision !== undefined;
+  const stagedArgs = baseRevision ? ["diff", "--staged", baseRevision] : ["diff", "--staged"];
+  const stagedChanges = await listChanges(stagedArgs, "staged", repositoryPath, config);
+  const unstagedChanges = stagedOnly ? [] : await listChanges(["diff"], "unstaged", repositoryPath, config);
+  const untrackedChanges = stagedOnly
     ? []
-    : parseLines(
-        await runGit(["ls-files", "--others", "--exclude-standard"], repositoryPath, config.commandTimeoutMs)
-      );
-
-  const allChangedFiles = uniqueLines([...stagedFiles, ...unstagedFiles, ...untrackedFiles]);
-  const limitedFiles = allChangedFiles.slice(0, config.maxChangedFiles);
-  const wasFileLimited = allChangedFiles.length > limitedFiles.length;
-
-  const stagedSet = new Set(stagedFiles);
-  const unstagedSet = new Set(unstagedFiles);
-  const untrackedSet = new Set(untrackedFiles);
+    : parseNulSeparated(
+        await runGit(["ls-files", "--others", "--exclude-standard", "-z"], repositoryPath, config.commandTimeoutMs)
+      ).map((path): FileChange => ({ path, kind: "added", area: "untracked" }));
+
+  const newDirectories =
+    config.summarizeNewDirectories && untrackedChanges.length > 0
+      ? countNewDirectoryFiles(
+          parseNulSeparated(
+            await runGit(
+              ["ls-files", "--others", "--exclude-standard", "--directory", "-z"],
+              repositoryPath,
+              config.commandTimeoutMs
+            )
+          ),
+          untrackedChanges.map((change) => change.path)
+        )
+      : [];
+
+  const allChanges = [...stagedChanges, ...unstagedChanges, ...untrackedChanges];
+  const candidateFiles = uniqueLines(allChanges.map((change) => change.path));
+  const exclusions = await findExcludedFiles(candidateFiles, repositoryPath, config);
+  const allChangedFiles = candidateFiles.filter((filePath) => !exclusions.has(filePath));
+  // Large-change mode summarizes files in separate requests, so every changed file is collected.
+  let limitedFiles = config.largeChangeMode ? allChangedFiles : allChangedFiles.slice(0, config.maxChangedFiles);
+  let limitedSet = new Set(limitedFiles);
+
+  const stagedByPath = new Map(stagedChanges.map((change) => [change.path, change]));
+  const unstagedByPath = new Map(unstagedChanges.map((change) => [change.path, change]));
+  const untrackedSet = new Set(untrackedChanges.map((change) => change.path));
+
+  // One `git diff` per side, split per file here, instead of one process per file and side.
+  const stagedDiffs = await collectPatchByFile(
+    stagedArgs,
+    stagedChanges.filter((change) => limitedSet.has(change.path)),
+    stagedChanges.length,
+    repositoryPath,
+    config
+  );
+  const unstagedDiffs = await collectPatchByFile(
+    ["diff"],
+    unstagedChanges.filter((change) => limitedSet.has(change.path)),
+    unstagedChanges.length,
+    repositoryPath,
+    config
+  );
 
-  const diffParts: string[] = [];
+  let files: FileDiff[] = [];
   for (const filePath of limitedFiles) {
     const sections: string[] = [];
 
-    if (stagedSet.has(filePath)) {
-      const stagedDiff = await runGit(
-        ["diff", "--staged", "--no-color", "--no-ext-diff", "--", filePath],
-        repositoryPath,
-        config.commandTimeoutMs
-      );
-      if (stagedDiff.trim()) {
-        sections.push(`# Staged diff\n${stagedDiff}`);
-      }
+    const stagedChange = stagedByPath.get(filePath);
+    const stagedDiff = stagedChange && (describeCompactChange(stagedChange) ?? stagedDiffs.get(filePath));
+    if (stagedDiff?.trim()) {
+      sections.push(`# Staged diff\n${stagedDiff}`);
     }
 
-    if (unstagedSet.has(filePath)) {
-      const unstagedDiff = await runGit(
-        ["diff", "--no-color", "--no-ext-diff", "--", filePath],
-        repositoryPath,
-        config.commandTimeoutMs
-      );
-      if (unstagedDiff.trim()) {
-        sections.push(`# Unstaged diff\n${unstagedDiff}`);
-      }
+    const unstagedChange = unstagedByPath.get(filePath);
+    const unstagedDiff = unstagedChange && (describeCompactChange(unstagedChange) ?? unstagedDiffs.get(filePath));
+    if (unstagedDiff?.trim()) {
+      sections.push(`# Unstaged diff\n${unstagedDiff}`);
     }
 
     if (untrackedSet.has(filePath)) {
-      const untrackedContent = await readUntrackedFileContent(join(repositoryPath, filePath));
+      const untrackedContent = await readUntrackedFileContent(join(repositoryPath, filePath), config);
       if (untrackedContent.trim()) {
         sections.push(`# Untracked file content\n${untrackedContent}`);
       }
     }
 
     if (sections.length > 0) {
-      diffParts.push(`## ${filePath}\n${sections.join("\n\n")}`);
+      files.push({ path: filePath, diff: `## ${filePath}\n${sections.join("\n\n")}` });
     }
   }
 
-  const merged = diffParts.join("\n\n");
-  const trimmed = config.truncateDiff ? trimUtf8(merged, config.maxDiffBytes) : { text: merged, truncated: false };
+  let merged = mergeFileDiffs(files, config);
+  // Below the threshold nothing is summarized and the diff goes into one prompt, so the file cap applies after all.
+  if (
+    config.largeChangeMode &&
+    limitedFiles.length > config.maxChangedFiles &&
+    merged.fullDiffBytes <= config.largeChangeThresholdBytes
+  ) {
+    limitedFiles = limitedFiles.slice(0, config.maxChangedFiles);
+    limitedSet = new Set(limitedFiles);
+    files = files.filter((file) => limitedSet.has(file.path));
+    merged = mergeFileDiffs(files, config);
+  }
+
+  const excludedFiles = await describeExcludedFiles(exclusions, allChanges, repositoryPath);
+  const changes = allChanges.filter((change) => limitedSet.has(change.path));
+  const historyExamples =
+    config.historyExampleCount > 0
+      ? await readHistoryExamples(
+          repositoryPath,
+          baseRevision ?? "HEAD",
+          uniqueLines(changes.flatMap((change) => (change.oldPath ? [change.oldPath, change.path] : [change.path]))),
+          config
+        )
+      : [];
+
+  const branch = await readBranchName(repositoryPath, config);
 
   return {
     status,
-    diff: trimmed.text,
-    wasTruncated: trimmed.truncated,
-    wasFileLimited,
+    ...merged,
+    files,
+    changes,
+    newDirectories,
+    historyExamples,
+    branch,
+    ticket: branch ? extractTicket(branch, config.ticketPattern) : undefined,
+    commitlint: config.commitlint ? await loadCommitlintRules(repositoryPath, hasTypedHeader(config)) : undefined,
+    excludedFiles,
+    wasFileLimited: allChangedFiles.length > limitedFiles.length,
     totalChangedFiles: allChangedFiles.length,
     includedChangedFiles: limitedFiles.length
   };
 }
 
-function runGit(args: string[], cwd: string, timeoutMs: number): Promise<string> {
+/** Works on unborn branches too; resolves undefined on a detached HEAD. */
+async function readBranchName(repositoryPath: string, config: ExtensionConfig): Promise<string | undefined> {
+  try {
+    return (await runGit(["symbolic-ref", "--short", "--quiet", "HEAD"], repositoryPath, config.commandTimeoutMs)) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Returns the first capture group of `ticketPattern` in the branch name, or the whole match without groups. */
+function extractTicket(branch: string, pattern: string): string | undefined {
+  if (!pattern) {
+    return undefined;
+  }
+
+  let match: RegExpMatchArray | null;
+  try {
+    match = branch.match(new RegExp(pattern));
+  } catch {
+    return undefined;
+  }
+
+  return (match?.[1] ?? match?.[0])?.trim() || undefined;
+}
+
+/**
+ * Reads up to `historyExampleCount` recent commit messages reachable from `revision` as style
+ * examples, taking commits that touched `paths` first and filling up with the latest other ones.
+ * Merges, autosquash commits and bot-authored commits are skipped; an unborn branch yields none.
+ */
+async function readHistoryExamples(
+  repositoryPath: string,
+  revision: string,
+  paths: string[],
+  config: ExtensionConfig
+): Promise<string[]> {
+  const count = config.historyExampleCount;
+  const pathspec = paths.length > 0 ? pathspecArgs(paths) : [];
+  const examples: string[] = [];
+
+  for (const scope of pathspec.length > 0 ? [pathspec, []] : [[]]) {
+    let log: string;
+    try {
+      log = await runGit(
+        [
+          "log",
+          `--max-count=${count * HISTORY_OVERFETCH_FACTOR}`,
+          "--no-merges",
+          "--format=%an%x00%ae%x00%B%x1e",
+          revision,
+          ...scope
+        ],
+        repositoryPath,
+        config.commandTimeoutMs
+      );
+    } catch {
+      return examples;
+    }
+
+    for (const record of log.split("\x1e")) {
+      const [author = "", email = "", body = ""] = record.replace(/^\n/, "").split("\0");
+      const message = body.trim();
+      if (!message || AUTOSQUASH_PATTERN.test(message) || BOT_AUTHOR_PATTERN.test(`${author} ${email}`)) {
+        continue;
+      }
+
+      const example =
+        message.length > MAX_HISTORY_EXAMPLE_CHARS ? `${message.slice(0, MAX_HISTORY_EXAMPLE_CHARS).trimEnd()}\n[...]` : message;
+      if (!examples.includes(example)) {
+        examples.push(example);
+      }
+      if (examples.length >= count) {
+        return examples;
+      }
+    }
+  }
+
+  return examples;
+}
+
+export interface CommitOptions {
+  stageAll: boolean;
+  signOff: boolean;
+}
+
+/**
+ * Runs `git commit` with `message` on stdin, staging everything first when `stageAll` is set.
+ * Hooks and `commit.gpgsign` are left to git; their output ends up in the rejected error.
+ */
+export async function commitChanges(
+  repositoryPath: string,
+  message: string,
+  config: ExtensionConfig,
+  options: CommitOptions
+): Promise<string> {
+  if (options.stageAll) {
+    await runGit(["add", "--all"], repositoryPath, config.commandTimeoutMs);
+  }
+
+  const args = ["commit", "--file=-", "--cleanup=strip", ...(options.signOff ? ["--signoff"] : [])];
+  return runGit(args, repositoryPath, Math.max(config.commandTimeoutMs, MIN_COMMIT_TIMEOUT_MS), `${message}\n`);
+}
+
+export interface CommitGroupsOptions extends CommitOptions {
+  onCommitted?: (completed: number, total: number) => void;
+}
+
+/**
+ * Commits the groups one after another. The index is snapshotted as a tree, cleared back to HEAD,
+ * and for each group only its paths are restored from the snapshot before `git commit` runs, so
+ * partially staged files keep their staged content. Whatever was not committed (including after a
+ * hook failure) is restored to the index afterwards. Resolves with the number of commits created.
+ */
+export async function commitGroups(
+  repositoryPath: string,
+  groups: CommitGroup[],
+  config: ExtensionConfig,
+  options: CommitGroupsOptions
+): Promise<number> {
+  if (options.stageAll) {
+    await runGit(["add", "--all"], repositoryPath, config.commandTimeoutMs);
+  }
+
+  const stagedTree = await runGit(["write-tree"], repositoryPath, config.commandTimeoutMs);
+  const hasHead = await runGit(["rev-parse", "--verify", "--quiet", "HEAD"], repositoryPath, config.commandTimeoutMs)
+    .then(() => true)
+    .catch(() => false);
+  await runGit(hasHead ? ["reset", "--quiet"] : ["read-tree", "--empty"], repositoryPath, config.commandTimeoutMs);
+
+  let completed = 0;
+  try {
+    for (const group of groups) {
+      await resetPathsTo(stagedTree, group.paths, repositoryPath, config);
+      await commitChanges(repositoryPath, group.message, config, { stageAll: false, signOff: options.signOff });
+      completed += 1;
+      options.onCommitted?.(completed, groups.length);
+    }
+  } finally {
+    // Committed paths already match HEAD, so restoring every path only brings back what is left.
+    await resetPathsTo(stagedTree, ["."], repositoryPath, config);
+  }
+
+  return completed;
+}
+
+/** Sets the index entries of `paths` to their state in `treeish`; the pathspecs go through stdin to avoid length limits. */
+async function resetPathsTo(
+  treeish: string,
+  paths: string[],
+  repositoryPath: string,
+  config: ExtensionConfig
+): Promise<void> {
+  await runGit(
+    ["--literal-pathspecs", "reset", "--quiet", "--pathspec-from-file=-", "--pathspec-file-nul", treeish],
+    repositoryPath,
+    config.commandTimeoutMs,
+    paths.map((filePath) => `${filePath}\0`).join("")
+  );
+}
+
+/** Joins the per-file diffs into `ChangeSnapshot.diff`, byte-trimmed when token budgeting is off. */
+export function mergeFileDiffs(
+  files: FileDiff[],
+  config: ExtensionConfig
+): Pick<ChangeSnapshot, "diff" | "fullDiffBytes" | "wasTruncated"> {
+  const merged = files.map((file) => file.diff).join("\n\n");
+  // With token budgeting enabled, buildPrompt trims the per-file diffs at hunk boundaries instead.
+  const trimmed =
+    config.truncateDiff && !config.tokenBudget
+      ? trimUtf8(merged, config.maxDiffBytes)
+      : { text: merged, truncated: false };
+
+  return {
+    diff: trimmed.text,
+    fullDiffBytes: Buffer.byteLength(merged, "utf8"),
+    wasTruncated: trimmed.truncated
+  };
+}
+
+/**
+ * Lists one side of the working tree as structured records. `--raw` carries the status letter,
+ * rename/copy similarity and file modes; `--numstat` in the same run adds the line counts.
+ */
+async function listChanges(
+  baseArgs: string[],
+  area: ChangeArea,
+  repositoryPath: string,
+  config: ExtensionConfig
+): Promise<FileChange[]> {
+  const output = await runGit([...baseArgs, "--raw", "--numstat", "-z", "-M", "-C"], repositoryPath, config.commandTimeoutMs);
+  const fields = output.split("\0");
+  const changes: FileChange[] = [];
+  const byPath = new Map<string, FileChange>();
+
+  let i = 0;
+  while (i < fields.length) {
+    const field = fields[i];
+
+    if (field.startsWith(":")) {
+      const [oldMode, newMode, , , status = ""] = field.slice(1).split(" ");
+      const hasSource = status.startsWith("R") || status.startsWith("C");
+      const change: FileChange = {
+        path: hasSource ? fields[i + 2] : fields[i + 1],
+        kind: CHANGE_KINDS[status[0]] ?? "modified",
+        area
+      };
+      if (hasSource) {
+        change.oldPath = fields[i + 1];
+        change.similarity = Number(status.slice(1));
+      }
+      if (oldMode !== NULL_MODE && newMode !== NULL_MODE && oldMode !== newMode) {
+        change.oldMode = oldMode;
+        change.newMode = newMode;
+      }
+      if (oldMode === SUBMODULE_MODE || newMode === SUBMODULE_MODE) {
+        change.submodule = true;
+      }
+
+      changes.push(change);
+      byPath.set(change.path, change);
+      i += hasSource ? 3 : 2;
+      continue;
+    }
+
+    // Renamed and copied entries leave the numstat path empty and print both paths as separate fields.
+    const match = field.match(/^(-|\d+)\t(-|\d+)\t(.*)$/s);
+    if (!match) {
+      i += 1;
+      continue;
+    }
+
+    const change = byPath.get(match[3] || fields[i + 2]);
+    i += match[3] ? 1 : 3;
+    if (!change) {
+      continue;
+    }
+    if (match[1] === "-") {
+      change.binary = true;
+    } else {
+      change.added = Number(match[1]);
+      change.deleted = Number(match[2]);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Pure renames/copies and deletions are represented by one line instead of a patch, so a moved
+ * file does not read as unrelated content and a deleted file does not dump its removed lines.
+ */
+function describeCompactChange(change: FileChange): string | undefined {
+  if (change.kind === "deleted") {
+    return change.binary ? "[Deleted binary file]" : `[Deleted file, ${change.deleted ?? 0} lines removed]`;
+  }
+
+  if ((change.kind === "renamed" || change.kind === "copied") && change.similarity === 100 && !change.oldMode) {
+    return `[${change.kind === "renamed" ? "Renamed" : "Copied"} from ${change.oldPath} without content changes]`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the changed files whose content should stay out of the prompt: paths matching
+ * `excludePatterns`, and (when enabled) paths marked `linguist-generated` or `-diff` in .gitattributes.
+ */
+async function findExcludedFiles(
+  filePaths: string[],
+  repositoryPath: string,
+  config: ExtensionConfig
+): Promise<Map<string, ExclusionReason>> {
+  const exclusions = new Map<string, ExclusionReason>();
+  const isExcluded = createPathMatcher(config.excludePatterns);
+
+  for (const filePath of filePaths) {
+    if (isExcluded(filePath)) {
+      exclusions.set(filePath, "pattern");
+    }
+  }
+
+  if (!config.respectGitAttributes) {
+    return exclusions;
+  }
+
+  const remaining = filePaths.filter((filePath) => !exclusions.has(filePath));
+  if (remaining.length === 0) {
+    return exclusions;
+  }
+
+  const output = await runGit(
+    ["check-attr", "--stdin", "-z", "linguist-generated", "diff"],
+    repositoryPath,
+    config.commandTimeoutMs,
+    `${remaining.join("\0")}\0`
+  );
+
+  const fields = output.split("\0");
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const [filePath, attribute, value] = [fields[i], fields[i + 1], fields[i + 2]];
+    if (attribute === "linguist-generated" && (value === "set" || value === "true")) {
+      exclusions.set(filePath, "generated");
+    } else if (attribute === "diff" && value === "unset" && !exclusions.has(filePath)) {
+      exclusions.set(filePath, "no-diff");
+    }
+  }
+
+  return exclusions;
+}
+
+async function describeExcludedFiles(
+  exclusions: Map<string, ExclusionReason>,
+  changes: FileChange[],
+  repositoryPath: string
+): Promise<ExcludedFile[]> {
+  const excludedFiles: ExcludedFile[] = [];
+
+  for (const [path, reason] of exclusions) {
+    const file: ExcludedFile = { path, reason };
+    for (const change of changes) {
+      if (change.path !== path) {
+        continue;
+      }
+      if (change.area === "untracked") {
+        Object.assign(file, await countUntrackedLines(join(repositoryPath, path)));
+      } else if (change.binary) {
+        file.binary = true;
+      } else if (change.added !== undefined) {
+        file.added = (file.added ?? 0) + change.added;
+        file.deleted = (file.deleted ?? 0) + (change.deleted ?? 0);
+      }
+    }
+    excludedFiles.push(file);
+  }
+
+  return excludedFiles;
+}
+
+async function countUntrackedLines(filePath: string): Promise<Pick<ExcludedFile, "added" | "binary">> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile() || stat.size > MAX_LINE_COUNT_BYTES) {
+      return {};
+    }
+
+    const buffer = await fs.readFile(filePath);
+    if (looksBinary(buffer)) {
+      return { binary: true };
+    }
+    if (buffer.length === 0) {
+      return { added: 0 };
+    }
+
+    let lines = 0;
+    for (const byte of buffer) {
+      if (byte === 10) {
+        lines += 1;
+      }
+    }
+    return { added: buffer[buffer.length - 1] === 10 ? lines : lines + 1 };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Runs a single `git diff` for the `changes` that need a patch and splits it into per-file sections.
+ * When the paths would overflow the command line, the whole side is diffed and filtered here.
+ */
+async function collectPatchByFile(
+  baseArgs: string[],
+  changes: FileChange[],
+  totalFilesOnSide: number,
+  repositoryPath: string,
+  config: ExtensionConfig
+): Promise<Map<string, string>> {
+  const patched = changes.filter((change) => describeCompactChange(change) === undefined);
+  if (patched.length === 0) {
+    return new Map();
+  }
+
+  // Rename and copy sources stay in the pathspec, or git would report the target as a new file.
+  const paths = uniqueLines(patched.flatMap((change) => (change.oldPath ? [change.oldPath, change.path] : [change.path])));
+  const pathspec = patched.length === totalFilesOnSide ? [] : pathspecArgs(paths);
+  const patch = await runGit(
+    [
+      ...baseArgs,
+      "--no-color",
+      "--no-ext-diff",
+      "-M",
+      "-C",
+      "--submodule=short",
+      "--src-prefix=a/",
+      "--dst-prefix=b/",
+      ...pathspec
+    ],
+    repositoryPath,
+    config.commandTimeoutMs
+  );
+
+  const wanted = new Set(patched.map((change) => change.path));
+  const output = new Map<string, string>();
+  for (const [filePath, section] of splitPatchByFile(patch)) {
+    if (wanted.has(filePath)) {
+      output.set(filePath, section);
+    }
+  }
+
+  return output;
+}
+
+function pathspecArgs(filePaths: string[]): string[] {
+  const length = filePaths.reduce((sum, filePath) => sum + filePath.length + 12, 0);
+  if (length > MAX_PATHSPEC_CHARS) {
+    return [];
+  }
+
+  return ["--", ...filePaths.map((filePath) => `:(literal)${filePath}`)];
+}
+
+function splitPatchByFile(patch: string): Map<string, string> {
+  const output = new Map<string, string>();
+  if (!patch) {
+    return output;
+  }
+
+  const chunks = patch.split(/^(?=diff --git )/m);
+  for (const chunk of chunks) {
+    const filePath = parsePatchPath(chunk);
+    if (filePath) {
+      output.set(filePath, chunk.replace(/\n+$/, ""));
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reads the (new) file path of one `diff --git` section: the `rename to`/`copy to` line for renames
+ * and copies, otherwise the `---`/`+++` lines or, for binary and mode-only changes, the symmetric header.
+ */
+function parsePatchPath(chunk: string): string | undefined {
+  const lines = chunk.split("\n");
+  if (!lines[0].startsWith("diff --git ")) {
+    return undefined;
+  }
+
+  for (const prefix of ["rename to ", "copy to "]) {
+    const line = lines.find((candidate) => candidate.startsWith(prefix));
+    if (line) {
+      const raw = line.slice(prefix.length);
+      return raw.startsWith('"') ? unquoteGitPath(raw) : raw;
+    }
+  }
+
+  for (const prefix of ["+++ b/", "--- a/", '+++ "b/', '--- "a/']) {
+    const line = lines.find((candidate) => candidate.startsWith(prefix));
+    if (line) {
+      const raw = line.slice(4);
+      return raw.startsWith('"') ? unquoteGitPath(raw).slice(2) : raw.slice(2).replace(/\t$/, "");
+    }
+  }
+
+  const header = lines[0].slice("diff --git ".length);
+  if (header.startsWith('"')) {
+    const end = findClosingQuote(header);
+    return end > 0 ? unquoteGitPath(header.slice(0, end + 1)).slice(2) : undefined;
+  }
+
+  const length = (header.length - 5) / 2;
+  if (!Number.isInteger(length) || length <= 0) {
+    return undefined;
+  }
+
+  const filePath = header.slice(2, 2 + length);
+  return header === `a/${filePath} b/${filePath}` ? filePath : undefined;
+}
+
+function findClosingQuote(value: string): number {
+  for (let i = 1; i < value.length; i += 1) {
+    if (value[i] === "\\") {
+      i += 1;
+    } else if (value[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Decodes a C-style quoted path as printed by git for names with special characters. */
+function unquoteGitPath(quoted: string): string {
+  const inner = quoted.replace(/^"|"$/g, "");
+  const bytes: number[] = [];
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, a: 7, b: 8, f: 12, v: 11, '"': 34, "\\": 92 };
+
+  for (let i = 0; i < inner.length; i += 1) {
+    const char = inner[i];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf8"));
+      continue;
+    }
+
+    const next = inner[i + 1];
+    const octal = inner.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else if (next !== undefined && next in escapes) {
+      bytes.push(escapes[next]);
+      i += 1;
+    } else {
+      bytes.push(92);
+    }
+  }
+
+  return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * Renders `status --porcelain -z` like `status --short`, but with paths as they are instead of
+ * C-quoted, so status lines can be matched against the change records.
+ */
+function formatShortStatus(output: string): string {
+  const fields = output.split("\0");
+  const lines: string[] = [];
+
+  for (let i = 0; i < fields.length; i += 1) {
+    const [code, path] = [fields[i].slice(0, 2), fields[i].slice(3)];
+    if (!path) {
+      continue;
+    }
+    // Renames and copies are followed by their source path as a separate field.
+    if (/[RC]/.test(code)) {
+      lines.push(`${code} ${fields[i + 1]} -> ${path}`);
+      i += 1;
+    } else {
+      lines.push(`${code} ${path}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function runGit(args: string[], cwd: string, timeoutMs: number, input?: string): Promise<string> {
+  return runGitRaw(args, cwd, timeoutMs, input).then((stdout) => stdout.trim());
+}
+
+/** Like `runGit`, but keeps leading whitespace, which is significant in porcelain output. */
+function runGitRaw(args: string[], cwd: string, timeoutMs: number, input?: string): Promise<string> {
   return new Promise((resolve, reject) => {
-    execFile(
+    const child = execFile(
       "git",
       ["-c", "core.quotepath=false", ...args],
       {
@@ -155,17 +818,18 @@ function runGit(args: string[], cwd: string, timeoutMs: number): Promise<string>
           reject(new Error(`git ${args.join(" ")} failed: ${details}`));
           return;
         }
-        resolve(stdout.trim());
+        resolve(stdout);
       }
     );
+
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
   });
 }
 
-function parseLines(value: string): string[] {
-  return value
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+function parseNulSeparated(value: string): string[] {
+  return value.split("\0").filter((entry) => entry.length > 0);
 }
 
 function uniqueLines(lines: string[]): string[] {
@@ -183,50 +847,7 @@ function uniqueLines(lines: string[]): string[] {
   return output;
 }
 
-async function readUntrackedFileContent(filePath: string): Promise<string> {
-  try {
-    const stat = await fs.stat(filePath);
-    if (!stat.isFile()) {
-      return "[Skipped non-regular file]";
-    }
-
-    const buffer = await fs.readFile(filePath);
-    if (looksBinary(buffer)) {
-      return "[Skipped binary file]";
-    }
-
-    const text = buffer.toString("utf8");
-    return text.trim() || "[Empty text file]";
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : String(error);
-    return `[Untracked file unavailable: ${reason}]`;
-  }
-}
-
-function looksBinary(buffer: Buffer): boolean {
-  if (buffer.length === 0) {
-    return false;
-  }
-
-  if (buffer.includes(0)) {
-    return true;
-  }
-
-  const sampleSize = Math.min(buffer.length, 1024);
-  let nonTextCount = 0;
-
-  for (let i = 0; i < sampleSize; i += 1) {
-    const byte = buffer[i];
-    const isControl = byte < 32 && byte !== 9 && byte !== 10 && byte !== 13;
-    if (isControl) {
-      nonTextCount += 1;
-    }
-  }
-
-  return nonTextCount / sampleSize > 0.1;
-}
-
-function trimUtf8(text: string, maxBytes: number): { text: string; truncated: boolean } {
+export function trimUtf8(text: string, maxBytes: number): { text: string; truncated: boolean } {
   const bytes = Buffer.byteLength(text, "utf8");
   if (bytes <= maxBytes) {
     return { text, truncated: false };
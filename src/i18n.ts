@@ -4,17 +4,63 @@ type MessageKey =
   | 'gitUnavailable'
   | 'noRepo'
   | 'progressTitle'
+  | 'progressSummarizing'
   | 'noChanges'
   | 'generated'
+  | 'generationCancelled'
+  | 'generatedWithFallback'
+  | 'invalidRedactionPatterns'
+  | 'previewTitle'
+  | 'previewPlaceholder'
+  | 'previewShowPrompt'
+  | 'previewIncludedSeparator'
+  | 'previewExcludedSeparator'
+  | 'previewNothingSelected'
+  | 'previewCancelled'
+  | 'candidatePickPlaceholder'
+  | 'candidateNotSelected'
+  | 'refineProgressTitle'
+  | 'refined'
+  | 'actionUndo'
+  | 'refineNothingToRefine'
+  | 'refineNothingToUndo'
+  | 'refinePickPlaceholder'
+  | 'refineShorter'
+  | 'refineMoreDetail'
+  | 'refineSwitchLanguage'
+  | 'refineChangeTypeScope'
+  | 'refineCustom'
+  | 'refineTypeScopePrompt'
+  | 'refineCustomPrompt'
+  | 'refineInstructionRequired'
+  | 'progressCommitting'
+  | 'actionCommit'
+  | 'commitConfirmStaged'
+  | 'commitConfirmAll'
+  | 'commitSkipped'
+  | 'committed'
+  | 'commitFailed'
+  | 'splitProgressTitle'
+  | 'splitNotEnoughChanges'
+  | 'splitUnassignedFiles'
+  | 'splitNoPlan'
+  | 'splitConfirmAll'
+  | 'splitConfirmStaged'
+  | 'splitProgressCommitted'
+  | 'splitCommitted'
+  | 'splitCommitFailed'
+  | 'commitlintViolations'
   | 'failedPrefix'
   | 'setupMissingBaseUrl'
   | 'setupMissingCredential'
+  | 'setupMissingAzureDeployment'
   | 'actionOpenSetup'
   | 'actionOpenSettings'
   | 'actionConfigureApiKey'
   | 'actionConfigureHeaders'
   | 'actionConfigureBaseUrl'
   | 'actionConfigureProvider'
+  | 'actionConfigureAzureDeployment'
   | 'wizardLanguagePlaceholder'
   | 'wizardProviderPlaceholder'
   | 'wizardModelPrompt'
@@ -24,6 +70,12 @@ type MessageKey =
   | 'wizardBaseUrlPrompt'
   | 'wizardBaseUrlPlaceholder'
   | 'wizardBaseUrlRequired'
+  | 'wizardAzureDeploymentPrompt'
+  | 'wizardAzureDeploymentPlaceholder'
+  | 'wizardAzureDeploymentRequired'
+  | 'wizardAzureApiVersionPrompt'
+  | 'wizardAzureApiVersionPlaceholder'
+  | 'wizardAzureApiVersionRequired'
   | 'wizardPathPrompt'
   | 'wizardPathPlaceholder'
   | 'wizardHeadersPrompt'
@@ -33,25 +85,83 @@ type MessageKey =
   | 'wizardClipboardYes'
   | 'wizardClipboardNo'
   | 'wizardSaved'
-  | 'wizardCancelled';
+  | 'wizardCancelled'
+  | 'profilePickPlaceholder'
+  | 'profileDefaultLabel'
+  | 'profileDefaultDescription'
+  | 'profileNoneConfigured'
+  | 'profileSwitched'
+  | 'profileStatusTooltip'
+  | 'apiKeysMigrated'
+  | 'apiKeysMigrationFailed'
+  | 'secretStorageUnavailable'
+  | 'clearKeysConfirm'
+  | 'clearKeysConfirmAction'
+  | 'clearKeysDone';
 
 const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = {
   zh: {
     gitUnavailable: 'VS Code 的 Git 扩展不可用或已禁用。',
     noRepo: '当前工作区没有检测到 Git 仓库。',
     progressTitle: 'GitFathom：正在生成提交信息',
+    progressSummarizing: '正在分组汇总大型变更（{completed}/{total}）',
     noChanges: '当前仓库没有变更。',
     generated: '已生成提交信息并填入 Source Control 输入框。',
+    generationCancelled: '已取消生成提交信息。',
+    generatedWithFallback: '主厂商不可用，已使用备用厂商 {provider} 生成提交信息。',
+    invalidRedactionPatterns: 'gitgathom.redactionPatterns 中以下正则无效，已忽略：{patterns}',
+    previewTitle: '发送预览：{files} 个文件，{bytes} 字节，约 {tokens} Token',
+    previewPlaceholder: '取消勾选不想发送的文件或 hunk，按回车发送',
+    previewShowPrompt: '查看完整提示词',
+    previewIncludedSeparator: '将发送',
+    previewExcludedSeparator: '已排除（仅发送文件名与行数）',
+    previewNothingSelected: '至少需要勾选一个文件。',
+    previewCancelled: '已取消发送，未向模型发出请求。',
+    candidatePickPlaceholder: '选择一条提交信息（共 {count} 条候选）',
+    candidateNotSelected: '未选择候选提交信息，输入框保持不变。',
+    refineProgressTitle: 'GitFathom：正在按要求修改提交信息',
+    refined: '已按要求修改提交信息。',
+    actionUndo: '撤销',
+    refineNothingToRefine: '输入框为空，请先生成或填写提交信息。',
+    refineNothingToUndo: '没有可撤销的修改。',
+    refinePickPlaceholder: '选择修改方式，或选择“自定义要求”输入',
+    refineShorter: '更简短',
+    refineMoreDetail: '更详细',
+    refineSwitchLanguage: '改用英文',
+    refineChangeTypeScope: '修改类型/范围…',
+    refineCustom: '自定义要求…',
+    refineTypeScopePrompt: '输入新的类型与范围，例如 fix(api)',
+    refineCustomPrompt: '输入修改要求，例如“提及数据库迁移”',
+    refineInstructionRequired: '修改要求不能为空。',
+    progressCommitting: '正在提交…',
+    actionCommit: '提交',
+    commitConfirmStaged: '使用以下提交信息提交已暂存的改动？',
+    commitConfirmAll: '暂存所有改动并使用以下提交信息提交？',
+    commitSkipped: '已取消提交，提交信息保留在输入框中。',
+    committed: '提交成功：{summary}',
+    commitFailed: 'git commit 失败（可能被钩子或签名拒绝），提交信息已保留在输入框中。',
+    splitProgressTitle: '正在规划提交拆分…',
+    splitNotEnoughChanges: '改动少于两个文件，无需拆分。',
+    splitUnassignedFiles: '模型遗漏了以下文件，已并入最后一个提交：{files}',
+    splitNoPlan: '没有待执行的提交拆分方案。',
+    splitConfirmAll: '暂存全部改动并按方案依次创建 {count} 个提交？',
+    splitConfirmStaged: '按方案将已暂存的改动依次拆分为 {count} 个提交？',
+    splitProgressCommitted: '已提交 {completed}/{total}',
+    splitCommitted: '已按方案创建 {count} 个提交。',
+    splitCommitFailed: '拆分提交在完成 {completed}/{total} 个后失败，剩余改动已恢复到暂存区，方案中保留未提交的部分。',
+    commitlintViolations: '提交信息仍未通过 commitlint 规则：{violations}',
     failedPrefix: 'GitFathom 执行失败：',
     setupMissingBaseUrl: '{provider} 尚未配置完整，请先设置 gitgathom.baseUrl。',
     setupMissingCredential:
       '{provider} 缺少凭证，请先配置 gitgathom.apiKey（或在兼容厂商里用 gitgathom.extraHeaders）。',
+    setupMissingAzureDeployment: '{provider} 尚未配置完整，请先设置 gitgathom.azureDeployment。',
     actionOpenSetup: '打开配置向导',
     actionOpenSettings: '打开设置',
     actionConfigureApiKey: '配置 API Key',
     actionConfigureHeaders: '配置额外请求头',
     actionConfigureBaseUrl: '配置 Base URL',
     actionConfigureProvider: '配置厂商',
+    actionConfigureAzureDeployment: '配置 Azure 部署名',
     wizardLanguagePlaceholder: '第 1 步：选择语言',
     wizardProviderPlaceholder: '第 2 步：选择 AI 厂商',
     wizardModelPrompt: '第 3 步：输入模型名',
@@ -60,7 +170,13 @@ const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = {
     wizardApiKeyPlaceholder: '以 sk-... 或其它厂商 key 开头',
     wizardBaseUrlPrompt: '第 5 步：配置 Base URL（留空使用厂商默认）',
     wizardBaseUrlPlaceholder: '例如 https://api.openai.com/v1 或第三方中转地址',
-    wizardBaseUrlRequired: 'custom 模式必须配置 Base URL。',
+    wizardBaseUrlRequired: 'custom / azure 模式必须配置 Base URL。',
+    wizardAzureDeploymentPrompt: '配置 Azure 部署名（deployment）',
+    wizardAzureDeploymentPlaceholder: '例如 gpt-4o-mini-prod',
+    wizardAzureDeploymentRequired: 'Azure 模式必须配置部署名。',
+    wizardAzureApiVersionPrompt: '配置 Azure api-version',
+    wizardAzureApiVersionPlaceholder: '例如 2024-10-21',
+    wizardAzureApiVersionRequired: 'Azure 模式必须配置 api-version。',
     wizardPathPrompt: '第 6 步：配置请求路径（OpenAI 兼容厂商常用 /chat/completions）',
     wizardPathPlaceholder: '例如 /chat/completions',
     wizardHeadersPrompt: '第 7 步：配置额外请求头 JSON（可用于第三方中转，留空=清空）',
@@ -70,24 +186,82 @@ const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = {
     wizardClipboardYes: '是，复制',
     wizardClipboardNo: '否，不复制',
     wizardSaved: '配置已保存。',
-    wizardCancelled: '已取消配置。'
+    wizardCancelled: '已取消配置。',
+    profilePickPlaceholder: '选择要在当前工作区使用的配置档案',
+    profileDefaultLabel: '默认设置',
+    profileDefaultDescription: '不使用档案，直接读取 gitgathom.* 设置',
+    profileNoneConfigured: '尚未定义任何配置档案，请先在 gitgathom.profiles 中添加。',
+    profileSwitched: '已切换到配置档案：{profile}',
+    profileStatusTooltip: 'GitFathom 配置档案：{profile}（点击切换）',
+    apiKeysMigrated: '已将 settings.json 中的 API Key 迁移到 VS Code 安全存储，并从设置中移除。',
+    apiKeysMigrationFailed: 'API Key 迁移到安全存储失败：',
+    secretStorageUnavailable: '无法读取 VS Code 安全存储，将只使用设置和环境变量中的 API Key：',
+    clearKeysConfirm: '确定要清除 GitFathom 保存在安全存储中的所有 API Key 吗？',
+    clearKeysConfirmAction: '清除',
+    clearKeysDone: '已清除 {count} 个已保存的 API Key。'
   },
   en: {
     gitUnavailable: 'Git extension is unavailable or disabled in VS Code.',
     noRepo: 'No Git repository found in the current workspace.',
     progressTitle: 'GitFathom: Generating commit message',
+    progressSummarizing: 'Summarizing large change in groups ({completed}/{total})',
     noChanges: 'No changes detected in this repository.',
     generated: 'Commit message generated and filled into Source Control input.',
+    generationCancelled: 'Commit message generation cancelled.',
+    generatedWithFallback: 'Primary provider failed; commit message generated by fallback {provider}.',
+    invalidRedactionPatterns: 'Ignored invalid regular expressions in gitgathom.redactionPatterns: {patterns}',
+    previewTitle: 'Preview: {files} files, {bytes} bytes, ~{tokens} tokens',
+    previewPlaceholder: 'Untick files or hunks you do not want to send, then press Enter',
+    previewShowPrompt: 'Show full prompt',
+    previewIncludedSeparator: 'Will be sent',
+    previewExcludedSeparator: 'Excluded (only names and line counts are sent)',
+    previewNothingSelected: 'Select at least one file to send.',
+    previewCancelled: 'Sending cancelled; no request was made.',
+    candidatePickPlaceholder: 'Pick a commit message ({count} candidates)',
+    candidateNotSelected: 'No candidate selected; the input box was left unchanged.',
+    refineProgressTitle: 'GitFathom: Refining commit message',
+    refined: 'Commit message refined.',
+    actionUndo: 'Undo',
+    refineNothingToRefine: 'The input box is empty. Generate or write a commit message first.',
+    refineNothingToUndo: 'Nothing to undo.',
+    refinePickPlaceholder: 'Pick how to refine the message, or choose "Custom instruction"',
+    refineShorter: 'Shorter',
+    refineMoreDetail: 'More detail',
+    refineSwitchLanguage: 'Switch to Chinese',
+    refineChangeTypeScope: 'Change type/scope…',
+    refineCustom: 'Custom instruction…',
+    refineTypeScopePrompt: 'New type and scope, e.g. fix(api)',
+    refineCustomPrompt: 'Instruction, e.g. "mention the migration"',
+    refineInstructionRequired: 'The instruction cannot be empty.',
+    progressCommitting: 'Committing…',
+    actionCommit: 'Commit',
+    commitConfirmStaged: 'Commit the staged changes with this message?',
+    commitConfirmAll: 'Stage all changes and commit with this message?',
+    commitSkipped: 'Commit skipped; the message is kept in the input box.',
+    committed: 'Committed: {summary}',
+    commitFailed: 'git commit failed (possibly rejected by a hook or signing); the message is kept in the input box.',
+    splitProgressTitle: 'Planning a commit split…',
+    splitNotEnoughChanges: 'Fewer than two files changed; there is nothing to split.',
+    splitUnassignedFiles: 'The model left out these files; they were added to the last commit: {files}',
+    splitNoPlan: 'There is no pending commit split plan.',
+    splitConfirmAll: 'Stage all changes and create the {count} planned commits in order?',
+    splitConfirmStaged: 'Split the staged changes into the {count} planned commits in order?',
+    splitProgressCommitted: 'Committed {completed}/{total}',
+    splitCommitted: 'Created {count} commits from the plan.',
+    splitCommitFailed: 'Split commit failed after {completed}/{total} commits; the remaining changes were restored to the index and kept in the plan.',
+    commitlintViolations: 'The message still fails the commitlint rules: {violations}',
     failedPrefix: 'GitFathom failed: ',
     setupMissingBaseUrl: '{provider} is not fully configured. Please set gitgathom.baseUrl first.',
     setupMissingCredential:
       '{provider} credential is missing. Configure gitgathom.apiKey (or gitgathom.extraHeaders for compatible providers).',
+    setupMissingAzureDeployment: '{provider} is not fully configured. Please set gitgathom.azureDeployment first.',
     actionOpenSetup: 'Open setup wizard',
     actionOpenSettings: 'Open settings',
     actionConfigureApiKey: 'Configure API key',
     actionConfigureHeaders: 'Configure extra headers',
     actionConfigureBaseUrl: 'Configure base URL',
     actionConfigureProvider: 'Configure provider',
+    actionConfigureAzureDeployment: 'Configure Azure deployment',
     wizardLanguagePlaceholder: 'Step 1: Select language',
     wizardProviderPlaceholder: 'Step 2: Select AI provider',
     wizardModelPrompt: 'Step 3: Enter model name',
@@ -96,7 +270,13 @@ const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = {
     wizardApiKeyPlaceholder: 'Starts with sk-... or provider-specific key',
     wizardBaseUrlPrompt: 'Step 5: Configure base URL (empty = provider default)',
     wizardBaseUrlPlaceholder: 'e.g. https://api.openai.com/v1 or third-party gateway',
-    wizardBaseUrlRequired: 'Base URL is required in custom mode.',
+    wizardBaseUrlRequired: 'Base URL is required in custom / azure mode.',
+    wizardAzureDeploymentPrompt: 'Configure Azure deployment name',
+    wizardAzureDeploymentPlaceholder: 'e.g. gpt-4o-mini-prod',
+    wizardAzureDeploymentRequired: 'Deployment name is required in azure mode.',
+    wizardAzureApiVersionPrompt: 'Configure Azure api-version',
+    wizardAzureApiVersionPlaceholder: 'e.g. 2024-10-21',
+    wizardAzureApiVersionRequired: 'api-version is required in azure mode.',
     wizardPathPrompt: 'Step 6: Configure request path (OpenAI-compatible providers often use /chat/completions)',
     wizardPathPlaceholder: 'e.g. /chat/completions',
     wizardHeadersPrompt: 'Step 7: Configure extra headers JSON (for third-party gateways, empty = clear)',
@@ -106,7 +286,19 @@ const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = {
     wizardClipboardYes: 'Yes, copy',
     wizardClipboardNo: 'No, keep in SCM only',
     wizardSaved: 'Configuration saved.',
-    wizardCancelled: 'Setup cancelled.'
+    wizardCancelled: 'Setup cancelled.',
+    profilePickPlaceholder: 'Select the profile to use in this workspace',
+    profileDefaultLabel: 'Default settings',
+    profileDefaultDescription: 'No profile, read gitgathom.* settings directly',
+    profileNoneConfigured: 'No profiles defined yet. Add them under gitgathom.profiles first.',
+    profileSwitched: 'Switched to profile: {profile}',
+    profileStatusTooltip: 'GitFathom profile: {profile} (click to switch)',
+    apiKeysMigrated: 'API keys found in settings.json were moved to VS Code secret storage and removed from settings.',
+    apiKeysMigrationFailed: 'Failed to move API keys to secret storage: ',
+    secretStorageUnavailable: 'VS Code secret storage is unavailable; only API keys from settings and environment variables are used: ',
+    clearKeysConfirm: 'Clear all API keys GitFathom stored in secret storage?',
+    clearKeysConfirmAction: 'Clear',
+    clearKeysDone: 'Cleared {count} stored API key(s).'
   }
 };
 
@@ -117,6 +309,9 @@ const PROVIDER_LABELS: Record<UiLanguage, Record<Provider, string>> = {
     gemini: 'Gemini',
     kimi: 'Kimi',
     glm: 'GLM',
+    anthropic: 'Anthropic（Claude）',
+    ollama: 'Ollama（本地模型）',
+    azure: 'Azure OpenAI',
     custom: '自定义兼容厂商'
   },
   en: {
@@ -125,6 +320,9 @@ const PROVIDER_LABELS: Record<UiLanguage, Record<Provider, string>> = {
     gemini: 'Gemini',
     kimi: 'Kimi',
     glm: 'GLM',
+    anthropic: 'Anthropic (Claude)',
+    ollama: 'Ollama (local model)',
+    azure: 'Azure OpenAI',
     custom: 'Custom compatible provider'
   }
 };
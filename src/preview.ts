@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { estimateTokens, splitDiffBlocks } from './budget';
+import { mergeFileDiffs } from './git';
+import { t } from './i18n';
+import { buildPrompt } from './prompt';
+import { ChangeSnapshot, ExcludedFile, ExtensionConfig, FileDiff, PromptPayload, UiLanguage } from './types';
+
+interface PreviewItem extends vscode.QuickPickItem {
+  filePath?: string;
+  /** Index into the file's diff blocks; set on hunk items only. */
+  blockIndex?: number;
+  excluded?: boolean;
+}
+
+/**
+ * Shows what would be sent and lets the user untick files or individual hunks before sending.
+ * Resolves with the reduced snapshot, or `undefined` when the preview is dismissed.
+ */
+export async function previewChange(
+  snapshot: ChangeSnapshot,
+  config: ExtensionConfig
+): Promise<ChangeSnapshot | undefined> {
+  const language = config.language;
+  const blocksByFile = new Map(snapshot.files.map(file => [file.path, splitDiffBlocks(file.diff)]));
+  const items = createPreviewItems(snapshot, blocksByFile, language);
+
+  const quickPick = vscode.window.createQuickPick<PreviewItem>();
+  quickPick.items = items;
+  quickPick.canSelectMany = true;
+  quickPick.ignoreFocusOut = true;
+  quickPick.matchOnDescription = true;
+  quickPick.selectedItems = items.filter(item => item.filePath !== undefined && !item.excluded);
+  quickPick.buttons = [{ iconPath: new vscode.ThemeIcon('open-preview'), tooltip: t(language, 'previewShowPrompt') }];
+
+  let current = snapshot;
+  let prompt: PromptPayload = buildPrompt(snapshot, config);
+
+  const refresh = () => {
+    current = applySelection(snapshot, blocksByFile, quickPick.selectedItems, config);
+    prompt = buildPrompt(current, config);
+    const promptText = `${prompt.systemPrompt}\n\n${prompt.userPrompt}`;
+    quickPick.title = t(language, 'previewTitle', {
+      files: String(current.files.length),
+      bytes: String(Buffer.byteLength(promptText, 'utf8')),
+      tokens: String(estimateTokens(promptText))
+    });
+    quickPick.placeholder = prompt.notes?.length
+      ? prompt.notes.map(note => note.replace(/^Note: /, '')).join(' ')
+      : t(language, 'previewPlaceholder');
+  };
+
+  refresh();
+
+  return await new Promise(resolve => {
+    let settled = false;
+    let syncing = false;
+    let previous = new Set(quickPick.selectedItems);
+
+    const finish = (value: ChangeSnapshot | undefined) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      quickPick.dispose();
+      resolve(value);
+    };
+
+    quickPick.onDidChangeSelection(selection => {
+      if (syncing) {
+        return;
+      }
+
+      // Unticking a file unticks its hunks; ticking a hunk re-ticks its file. Excluded entries stay unticked.
+      const selected = new Set(selection.filter(item => !item.excluded));
+      for (const item of items) {
+        if (item.filePath === undefined || item.blockIndex !== undefined) {
+          continue;
+        }
+        const hunks = items.filter(other => other.filePath === item.filePath && other.blockIndex !== undefined);
+        if (previous.has(item) && !selected.has(item)) {
+          hunks.forEach(hunk => selected.delete(hunk));
+        } else if (!previous.has(item) && selected.has(item)) {
+          hunks.forEach(hunk => selected.add(hunk));
+        } else if (hunks.some(hunk => selected.has(hunk) && !previous.has(hunk))) {
+          selected.add(item);
+        }
+      }
+
+      syncing = true;
+      quickPick.selectedItems = items.filter(item => selected.has(item));
+      syncing = false;
+      previous = selected;
+      refresh();
+    });
+
+    quickPick.onDidTriggerButton(async () => {
+      const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: `# System\n\n${prompt.systemPrompt}\n\n# User\n\n${prompt.userPrompt}`
+      });
+      await vscode.window.showTextDocument(document, { preview: true, preserveFocus: true });
+    });
+
+    quickPick.onDidAccept(() => {
+      if (current.files.length === 0) {
+        void vscode.window.showWarningMessage(t(language, 'previewNothingSelected'));
+        return;
+      }
+      quickPick.hide();
+      finish(current);
+    });
+    quickPick.onDidHide(() => finish(undefined));
+
+    quickPick.show();
+  });
+}
+
+function createPreviewItems(
+  snapshot: ChangeSnapshot,
+  blocksByFile: Map<string, string[]>,
+  language: UiLanguage
+): PreviewItem[] {
+  const items: PreviewItem[] = [
+    { label: t(language, 'previewIncludedSeparator'), kind: vscode.QuickPickItemKind.Separator }
+  ];
+
+  for (const file of snapshot.files) {
+    const blocks = blocksByFile.get(file.path) ?? [];
+    items.push({
+      label: file.path,
+      description: describeSize(file.diff),
+      filePath: file.path
+    });
+
+    const hunkIndexes = blocks.flatMap((block, index) => (block.startsWith('@@') ? [index] : []));
+    if (hunkIndexes.length < 2) {
+      continue;
+    }
+    for (const index of hunkIndexes) {
+      items.push({
+        label: `$(diff) ${blocks[index].split('\n')[0]}`,
+        description: describeSize(blocks[index]),
+        filePath: file.path,
+        blockIndex: index
+      });
+    }
+  }
+
+  if (snapshot.excludedFiles.length > 0) {
+    items.push({ label: t(language, 'previewExcludedSeparator'), kind: vscode.QuickPickItemKind.Separator });
+    items.push(
+      ...snapshot.excludedFiles.map(
+        (file): PreviewItem => ({
+          label: `$(circle-slash) ${file.path}`,
+          description: describeExclusion(file),
+          excluded: true
+        })
+      )
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Rebuilds the snapshot from the ticked items. Unticked hunks are cut from their file's diff;
+ * unticked files are dropped from the diff, the change list and the status so not even their
+ * names are sent.
+ */
+function applySelection(
+  snapshot: ChangeSnapshot,
+  blocksByFile: Map<string, string[]>,
+  selectedItems: readonly PreviewItem[],
+  config: ExtensionConfig
+): ChangeSnapshot {
+  const selectedFiles = new Set(
+    selectedItems.filter(item => item.blockIndex === undefined).map(item => item.filePath)
+  );
+  const files: FileDiff[] = [];
+
+  for (const file of snapshot.files) {
+    if (!selectedFiles.has(file.path)) {
+      continue;
+    }
+
+    const blocks = blocksByFile.get(file.path) ?? [];
+    const hunkCount = blocks.filter(block => block.startsWith('@@')).length;
+    const keptHunks = new Set(
+      selectedItems
+        .filter(item => item.filePath === file.path && item.blockIndex !== undefined)
+        .map(item => item.blockIndex)
+    );
+    // Files with a single hunk have no hunk items and are kept or dropped as a whole.
+    if (hunkCount < 2 || keptHunks.size === hunkCount) {
+      files.push(file);
+      continue;
+    }
+
+    const diff = blocks.filter((block, index) => !block.startsWith('@@') || keptHunks.has(index)).join('\n');
+    files.push({ path: file.path, diff });
+  }
+
+  const removed = new Set(snapshot.files.map(file => file.path).filter(path => !selectedFiles.has(path)));
+  if (removed.size === 0 && files.every((file, index) => file === snapshot.files[index])) {
+    return snapshot;
+  }
+
+  // Untracked directories are listed as one status line; it goes once none of its files is left.
+  const newDirectories = snapshot.newDirectories.map(directory => ({
+    ...directory,
+    fileCount: directory.fileCount - [...removed].filter(path => path.startsWith(directory.path)).length
+  }));
+  const hiddenPaths = new Set([
+    ...removed,
+    ...newDirectories.filter(directory => directory.fileCount <= 0).map(directory => directory.path)
+  ]);
+
+  return {
+    ...snapshot,
+    ...mergeFileDiffs(files, config),
+    files,
+    status: snapshot.status
+      .split('\n')
+      .filter(line => ![...hiddenPaths].some(path => line.slice(3) === path || line.endsWith(` -> ${path}`)))
+      .join('\n'),
+    changes: snapshot.changes.filter(change => !removed.has(change.path)),
+    newDirectories: newDirectories.filter(directory => directory.fileCount > 0)
+  };
+}
+
+function describeSize(text: string): string {
+  return `${Buffer.byteLength(text, 'utf8')} B · ~${estimateTokens(text)} tokens`;
+}
+
+function describeExclusion(file: ExcludedFile): string {
+  const lines = file.binary ? 'binary' : file.added === undefined ? '' : `+${file.added ?? 0} -${file.deleted ?? 0}`;
+  return [file.reason, lines].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { describeProfile, getProfileNames } from './config';
+import { t } from './i18n';
+import { updateSetting } from './setupWizard';
+import { ExtensionConfig, UiLanguage } from './types';
+
+interface ProfilePickItem extends vscode.QuickPickItem {
+  value: string;
+}
+
+export async function switchProfile(language: UiLanguage, activeProfile: string): Promise<boolean> {
+  const names = getProfileNames();
+  if (names.length === 0) {
+    const action = t(language, 'actionOpenSettings');
+    const selected = await vscode.window.showInformationMessage(t(language, 'profileNoneConfigured'), action);
+    if (selected === action) {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'gitgathom.profiles');
+    }
+    return false;
+  }
+
+  const current = language === 'zh' ? '当前' : 'Current';
+  const items: ProfilePickItem[] = [
+    {
+      label: t(language, 'profileDefaultLabel'),
+      description: t(language, 'profileDefaultDescription'),
+      detail: activeProfile ? '' : current,
+      value: ''
+    },
+    ...names.map(name => ({
+      label: name,
+      description: describeProfile(name),
+      detail: name === activeProfile ? current : '',
+      value: name
+    }))
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: t(language, 'profilePickPlaceholder')
+  });
+  if (!picked) {
+    return false;
+  }
+
+  await updateSetting('activeProfile', picked.value);
+  return true;
+}
+
+export function createProfileStatusBarItem(): vscode.StatusBarItem {
+  const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+  item.command = 'gitgathom.switchProfile';
+  return item;
+}
+
+export function updateProfileStatusBarItem(item: vscode.StatusBarItem, config: ExtensionConfig): void {
+  if (getProfileNames().length === 0) {
+    item.hide();
+    return;
+  }
+
+  const name = config.activeProfile || t(config.language, 'profileDefaultLabel');
+  item.text = `$(git-commit) ${name}`;
+  item.tooltip = t(config.language, 'profileStatusTooltip', { profile: name });
+  item.show();
+}
@@ -1,4 +1,21 @@
-import { ChangeSnapshot, ExtensionConfig, PromptPayload } from './types';
+import { fitDiffToTokenBudget, resolveDiffTokenBudget } from './budget';
+import { describeCommitlintRules } from './commitlint';
+import {
+  ChangeSnapshot,
+  ExcludedFile,
+  ExtensionConfig,
+  FileChange,
+  FileDiff,
+  PromptPayload,
+  TicketPlacement,
+  UiLanguage
+} from './types';
+
+const TICKET_PLACEMENT_LABELS: Record<Exclude<TicketPlacement, 'none'>, string> = {
+  subject: 'start of the subject',
+  scope: 'scope',
+  footer: '"Refs:" footer'
+};
 
 export function buildPrompt(snapshot: ChangeSnapshot, config: ExtensionConfig): PromptPayload {
   const sections: string[] = [];
@@ -18,44 +35,47 @@ export function buildPrompt(snapshot: ChangeSnapshot, config: ExtensionConfig):
   if (config.language === 'zh') {
     sections.push('语言要求：输出必须为简体中文。');
     sections.push(
-      isDetailed
-        ? '输出约束:\n' +
-            '- 输出 1 条完整提交信息（可多行）\n' +
-            '- 第一行格式：<gitmoji> <type>(可选scope): <subject>\n' +
-            '- 后续每一行以 "  - " 开头，描述 1 个具体改动点\n' +
-            '- 不要使用 markdown\n' +
-            '- 不要加引号\n' +
-            '- 冒号后必须有主题内容\n' +
-            '- 主题必须具体，避免只写“添加/修改/更新”等泛化词'
-        : '输出约束:\n' +
-            '- 输出 1 条完整提交信息（可多行）\n' +
-            '- 第一行格式：<gitmoji> <type>(可选scope): <subject>\n' +
-            '- 后续每一行以 "  - " 开头，用一句话概括一个改动\n' +
-            '- 不要使用 markdown\n' +
-            '- 不要加引号\n' +
-            '- 冒号后必须有主题内容\n' +
-            '- 主题必须具体，避免只写“添加/修改/更新”等泛化词'
+      '输出约束:\n' +
+        [
+          '输出 1 条完整提交信息（可多行）',
+          ...describeMessageFormat(config, 'zh'),
+          '不要使用 markdown',
+          '不要加引号',
+          '主题必须具体，避免只写“添加/修改/更新”等泛化词'
+        ]
+          .map(line => `- ${line}`)
+          .join('\n')
     );
   } else {
     sections.push('Language requirement: Output must be in English.');
     sections.push(
-      isDetailed
-        ? 'Output constraints:\n' +
-            '- Return one complete commit message (multiple lines allowed)\n' +
-            '- First line format: <gitmoji> <type>(optional-scope): <subject>\n' +
-            '- Each following line must start with "  - " and describe one concrete change\n' +
-            '- Do not use markdown\n' +
-            '- Do not wrap in quotes\n' +
-            '- Subject must exist after ":"\n' +
-            '- Subject must be specific and not generic words like "update" or "changes"'
-        : 'Output constraints:\n' +
-            '- Return one complete commit message (multiple lines allowed)\n' +
-            '- First line format: <gitmoji> <type>(optional-scope): <subject>\n' +
-            '- Each following line must start with "  - " and summarize one change in a single sentence\n' +
-            '- Do not use markdown\n' +
-            '- Do not wrap in quotes\n' +
-            '- Subject must exist after ":"\n' +
-            '- Subject must be specific and not generic words like "update" or "changes"'
+      'Output constraints:\n' +
+        [
+          'Return one complete commit message (multiple lines allowed)',
+          ...describeMessageFormat(config, 'en'),
+          'Do not use markdown',
+          'Do not wrap in quotes',
+          'Subject must be specific and not generic words like "update" or "changes"'
+        ]
+          .map(line => `- ${line}`)
+          .join('\n')
+    );
+  }
+
+  if (snapshot.commitlint) {
+    sections.push(describeCommitlintRules(snapshot.commitlint));
+  }
+
+  const branchContext = describeBranch(snapshot, config);
+  if (branchContext) {
+    sections.push(branchContext);
+  }
+
+  if (snapshot.historyExamples.length > 0) {
+    sections.push(
+      'Recent commit messages in this repository, as style examples. Follow their conventions (scope names, ' +
+        'subject tense and wording, ticket prefixes) within the output constraints above, but do not copy their content:\n' +
+        snapshot.historyExamples.join('\n---\n')
     );
   }
 
@@ -63,20 +83,362 @@ export function buildPrompt(snapshot: ChangeSnapshot, config: ExtensionConfig):
     sections.push(`Git status (short):\n${snapshot.status}`);
   }
 
-  sections.push(`Git diff:\n${snapshot.diff || '(no diff provided)'}`);
+  if (snapshot.changes.length > 0) {
+    sections.push(`Changed files:\n${snapshot.changes.map(describeFileChange).join('\n')}`);
+  }
 
-  if (snapshot.wasFileLimited) {
+  if (snapshot.newDirectories.length > 0) {
     sections.push(
+      `New directories: ${snapshot.newDirectories
+        .map(directory => `${directory.path} (${directory.fileCount} ${directory.fileCount === 1 ? 'file' : 'files'})`)
+        .join(', ')}`
+    );
+  }
+
+  const notes: string[] = [];
+
+  if (snapshot.wasFileLimited) {
+    notes.push(
       `Note: Changed files were limited to ${snapshot.includedChangedFiles}/${snapshot.totalChangedFiles} by maxChangedFiles.`
     );
   }
 
+  if (snapshot.changes.some(change => change.kind === 'renamed')) {
+    notes.push(
+      'Note: Renamed files are listed as "renamed <old> -> <new>". Describe them as renames (e.g. "rename <old> to <new>"), ' +
+        'not as a deletion plus an unrelated new file.'
+    );
+  }
+
+  if (snapshot.changes.some(change => change.kind === 'deleted')) {
+    notes.push('Note: Deleted files are shown without their removed content.');
+  }
+
   if (snapshot.wasTruncated) {
-    sections.push('Note: Diff content was truncated for performance limits.');
+    notes.push('Note: Diff content was truncated for performance limits.');
+  }
+
+  if (snapshot.summaries) {
+    sections.push(
+      `Change summaries (generated per file group, covering all ${snapshot.totalChangedFiles} changed files):\n` +
+        snapshot.summaries.join('\n\n')
+    );
+  } else if (config.truncateDiff && config.tokenBudget) {
+    const fixedText = [config.systemPrompt, ...sections, ...notes].join('\n\n');
+    const budget = resolveDiffTokenBudget(config, fixedText);
+    const fitted = fitDiffToTokenBudget(snapshot.files, budget);
+
+    sections.push(`Git diff:\n${fitted.text || '(no diff provided)'}`);
+
+    if (fitted.truncated) {
+      notes.push(`Note: Diff was trimmed at hunk boundaries to fit about ${budget} tokens of model context.`);
+    }
+    if (fitted.omittedFiles.length > 0) {
+      notes.push(`Note: Diff omitted for these changed files to fit the model context: ${fitted.omittedFiles.join(', ')}`);
+    }
+  } else {
+    sections.push(`Git diff:\n${snapshot.diff || '(no diff provided)'}`);
+  }
+
+  sections.push(...notes);
+
+  if (snapshot.excludedFiles.length > 0) {
+    sections.push(
+      'Changed files excluded from the diff (lockfiles, generated, vendored or sensitive content; only names and line counts are shown):\n' +
+        snapshot.excludedFiles.map(describeExcludedFile).join('\n')
+    );
+  }
+
+  return {
+    systemPrompt: config.systemPrompt,
+    userPrompt: sections.join('\n\n'),
+    notes,
+    ticket: snapshot.ticket,
+    commitlint: snapshot.commitlint
+  };
+}
+
+/** Header and body layout of the configured `messageFormat`, one constraint per line. */
+function describeMessageFormat(config: ExtensionConfig, language: UiLanguage): string[] {
+  const detailed = config.detailedOutput;
+  const zh = language === 'zh';
+  const bulletBody = zh
+    ? `空一行后，每行以 "- " 开头，${detailed ? '描述 1 个具体改动点' : '用一句话概括一个改动'}`
+    : `After an empty line, each line must start with "- " and ${detailed ? 'describe one concrete change' : 'summarize one change in a single sentence'}`;
+  const overridesRules = zh
+    ? '规则中对 gitmoji 或格式的要求与本输出约束冲突时，以本输出约束为准'
+    : 'Where the rules above ask for gitmoji or another layout, follow these output constraints instead';
+  const subjectAfterColon = zh ? '冒号后必须有主题内容' : 'Subject must exist after ":"';
+
+  switch (config.messageFormat) {
+    case 'conventional':
+      return [
+        zh ? '第一行格式：<type>(可选scope): <subject>，不要使用 emoji' : 'First line format: <type>(optional-scope): <subject>, without emoji',
+        bulletBody,
+        subjectAfterColon,
+        overridesRules
+      ];
+    case 'angular':
+      return [
+        zh
+          ? '第一行格式：<type>(可选scope): <subject>，type 只能是 build、ci、docs、feat、fix、perf、refactor、test、revert，不要使用 emoji'
+          : 'First line format: <type>(optional-scope): <subject>, where type is one of build, ci, docs, feat, fix, perf, refactor, test, revert; no emoji',
+        zh ? 'subject 使用祈使语气，首字母小写，结尾不加句号' : 'Subject in the imperative mood, starting lower-case, without a trailing period',
+        bulletBody,
+        overridesRules
+      ];
+    case 'plain':
+      return [
+        zh ? '第一行为简短的主题，不要 type 前缀，不要 emoji' : 'First line: a short summary without a type prefix or emoji',
+        zh
+          ? `空一行后用${detailed ? '一段连贯的文字' : '一两句话'}说明改动内容与原因，不要使用列表`
+          : `After an empty line, explain what changed and why in ${detailed ? 'a short paragraph of prose' : 'one or two sentences'}, not a list`,
+        overridesRules
+      ];
+    case 'custom':
+      return [
+        zh ? '第一行格式：<type>(可选scope): <subject>，不要使用 emoji' : 'First line format: <type>(optional-scope): <subject>, without emoji',
+        bulletBody,
+        subjectAfterColon,
+        zh
+          ? `扩展会把结果套入模板：${JSON.stringify(config.messageTemplate)}`
+          : `The extension renders the result into this template: ${JSON.stringify(config.messageTemplate)}`,
+        overridesRules
+      ];
+    default:
+      return [
+        zh ? '第一行格式：<gitmoji> <type>(可选scope): <subject>' : 'First line format: <gitmoji> <type>(optional-scope): <subject>',
+        zh
+          ? `后续每一行以 "  - " 开头，${detailed ? '描述 1 个具体改动点' : '用一句话概括一个改动'}`
+          : `Each following line must start with "  - " and ${detailed ? 'describe one concrete change' : 'summarize one change in a single sentence'}`,
+        subjectAfterColon
+      ];
+  }
+}
+
+/**
+ * Branch context. When the ticket is placed by post-processing the model is told to leave it out,
+ * so it does not end up in the message twice.
+ */
+function describeBranch(snapshot: ChangeSnapshot, config: ExtensionConfig): string | undefined {
+  if (!snapshot.branch) {
+    return undefined;
+  }
+
+  const lines = [`Current branch: ${snapshot.branch}`];
+  if (snapshot.ticket) {
+    lines.push(
+      config.ticketPlacement === 'none'
+        ? `Issue key from the branch name: ${snapshot.ticket}`
+        : `Issue key from the branch name: ${snapshot.ticket} (it is added to the ${TICKET_PLACEMENT_LABELS[config.ticketPlacement]} automatically; do not include it yourself)`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function describeFileChange(change: FileChange): string {
+  const details: string[] = [];
+  const subject =
+    change.kind === 'renamed' || change.kind === 'copied'
+      ? `${change.kind} ${change.oldPath} -> ${change.path}`
+      : `${change.kind} ${change.path}`;
+
+  if (change.similarity !== undefined) {
+    details.push(`${change.similarity}% similar`);
+  }
+  if (change.submodule) {
+    details.push('submodule pointer');
+  }
+  if (change.oldMode) {
+    details.push(`mode ${change.oldMode} -> ${change.newMode}`);
+  }
+  if (change.binary) {
+    details.push('binary');
+  } else if (change.added !== undefined) {
+    details.push(`+${change.added} -${change.deleted ?? 0}`);
+  }
+  details.push(change.area);
+
+  return `- ${subject} (${details.join(', ')})`;
+}
+
+function describeExcludedFile(file: ExcludedFile): string {
+  const reason =
+    file.reason === 'generated'
+      ? 'linguist-generated'
+      : file.reason === 'no-diff'
+      ? '-diff attribute'
+      : file.reason === 'denied'
+      ? 'redaction deny list'
+      : 'excludePatterns';
+
+  if (file.binary) {
+    return `- ${file.path} (binary, ${reason})`;
   }
 
+  if (file.added === undefined && file.deleted === undefined) {
+    return `- ${file.path} (${reason})`;
+  }
+
+  return `- ${file.path} (+${file.added ?? 0} -${file.deleted ?? 0}, ${reason})`;
+}
+
+/**
+ * Prompt for `git commit --amend`: the diff already spans HEAD's parent to the index, and the
+ * current HEAD message is given as context for the replacement.
+ */
+export function buildAmendPrompt(snapshot: ChangeSnapshot, headMessage: string, config: ExtensionConfig): PromptPayload {
+  const base = buildPrompt(snapshot, config);
+  const context =
+    'Amend mode: the message will replace the current HEAD commit message via `git commit --amend`. ' +
+    "The diff covers HEAD's own changes plus the staged changes, so describe all of it as one commit. " +
+    'Keep details of the existing message that still apply.\n' +
+    `Existing HEAD commit message:\n${headMessage.trim() || '(empty)'}`;
+
+  return {
+    ...base,
+    userPrompt: `${base.userPrompt}\n\n${context}`
+  };
+}
+
+export function buildChangeSummaryPrompt(files: FileDiff[], config: ExtensionConfig): PromptPayload {
+  const sections: string[] = [];
+
+  sections.push(
+    'Task: Summarize the following file changes. The summaries will later be combined into one git commit message, ' +
+      'so capture what changed and why, not how the diff looks.'
+  );
+  sections.push(
+    config.language === 'zh'
+      ? '输出约束:\n' +
+          '- 每个文件输出一行，格式：<文件路径>: <改动概括>\n' +
+          '- 使用简体中文，不要使用 markdown\n' +
+          '- 只描述 diff 中可见的改动，不要臆测'
+      : 'Output constraints:\n' +
+          '- One line per file, formatted as: <file path>: <summary of the change>\n' +
+          '- Use English and do not use markdown\n' +
+          '- Only describe changes visible in the diff; do not speculate'
+  );
+  sections.push(`Files:\n${files.map(file => `- ${file.path}`).join('\n')}`);
+  sections.push(`Git diff:\n${files.map(file => file.diff).join('\n\n')}`);
+
   return {
     systemPrompt: config.systemPrompt,
     userPrompt: sections.join('\n\n')
   };
 }
+
+/**
+ * Asks the model to group the changed files into atomic commits and answer with JSON, so the plan
+ * can be shown and committed group by group. Excluded files are listed by name so they get a group too.
+ */
+export function buildCommitSplitPrompt(snapshot: ChangeSnapshot, config: ExtensionConfig): PromptPayload {
+  const sections: string[] = [];
+
+  sections.push(
+    'Task: The changes below mix several unrelated pieces of work. Split them into a sequence of small, ' +
+      'atomic git commits, each covering one logical change, and write a commit message for each.'
+  );
+  sections.push(`Commit message rules:\n${config.ruleTemplate}`);
+
+  if (config.additionalRules.trim()) {
+    sections.push(`Additional rules:\n${config.additionalRules.trim()}`);
+  }
+
+  sections.push(
+    config.language === 'zh'
+      ? '语言要求：提交信息必须为简体中文。'
+      : 'Language requirement: Commit messages must be in English.'
+  );
+  sections.push(
+    'Output constraints:\n' +
+      '- Return only JSON, no markdown and no explanation\n' +
+      '- Shape: {"commits": [{"message": "<commit message>", "files": ["<path>", ...]}]}\n' +
+      '- Every changed file listed below must appear in exactly one commit, using the path exactly as listed\n' +
+      '- Order the commits so each one builds on the previous ones (e.g. refactors before the features that use them)\n' +
+      describeMessageFormat(config, 'en').map(line => `- Each message: ${line}\n`).join('') +
+      '- Use a single commit when the changes really belong together'
+  );
+
+  if (snapshot.commitlint) {
+    sections.push(describeCommitlintRules(snapshot.commitlint));
+  }
+
+  const branchContext = describeBranch(snapshot, config);
+  if (branchContext) {
+    sections.push(branchContext);
+  }
+
+  const files = [
+    ...snapshot.changes.map(describeFileChange),
+    ...snapshot.excludedFiles.map(describeExcludedFile)
+  ];
+  sections.push(`Changed files:\n${files.join('\n')}`);
+
+  if (config.truncateDiff && config.tokenBudget) {
+    const budget = resolveDiffTokenBudget(config, [config.systemPrompt, ...sections].join('\n\n'));
+    const fitted = fitDiffToTokenBudget(snapshot.files, budget);
+    sections.push(`Git diff:\n${fitted.text || '(no diff provided)'}`);
+    if (fitted.omittedFiles.length > 0) {
+      sections.push(`Note: Diff omitted for these changed files to fit the model context: ${fitted.omittedFiles.join(', ')}`);
+    }
+  } else {
+    sections.push(`Git diff:\n${snapshot.diff || '(no diff provided)'}`);
+  }
+
+  return {
+    systemPrompt: config.systemPrompt,
+    userPrompt: sections.join('\n\n'),
+    ticket: snapshot.ticket,
+    commitlint: snapshot.commitlint
+  };
+}
+
+/**
+ * Follow-up turn for refining a message: the original prompt (diff context) is kept, the previous
+ * message is replayed as the assistant's answer and the instruction is sent as a new user turn.
+ */
+export function buildRefinePrompt(
+  base: PromptPayload,
+  previousMessage: string,
+  instruction: string,
+  config: ExtensionConfig
+): PromptPayload {
+  const request =
+    config.language === 'zh'
+      ? `请按以下要求修改上面的提交信息：${instruction}\n除非要求另有说明，继续遵守原有的输出约束，只输出修改后的提交信息。`
+      : `Revise the commit message above as follows: ${instruction}\n` +
+        'Keep following the original output constraints unless the instruction says otherwise, and return only the revised commit message.';
+
+  return {
+    systemPrompt: base.systemPrompt,
+    userPrompt: base.userPrompt,
+    ticket: base.ticket,
+    commitlint: base.commitlint,
+    followUpTurns: [
+      { role: 'assistant', content: previousMessage },
+      { role: 'user', content: request }
+    ]
+  };
+}
+
+/**
+ * Follow-up turn asking the model to fix a message that failed the repository's commitlint rules.
+ * Earlier follow-up turns (e.g. a refinement) are kept so the repair does not undo them.
+ */
+export function buildLintRepairPrompt(base: PromptPayload, message: string, violations: string[]): PromptPayload {
+  return {
+    ...base,
+    followUpTurns: [
+      ...(base.followUpTurns ?? []),
+      { role: 'assistant', content: message },
+      {
+        role: 'user',
+        content:
+          `The commit message above fails the repository's commitlint rules:\n${violations.map(violation => `- ${violation}`).join('\n')}\n` +
+          'Fix these problems without changing what the message describes, and return only the corrected commit message.'
+      }
+    ]
+  };
+}
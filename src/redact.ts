@@ -0,0 +1,182 @@
+import { createPathMatcher } from './exclude';
+import { mergeFileDiffs } from './git';
+import { ChangeSnapshot, ExcludedFile, ExtensionConfig, FileDiff, RedactionEntry, RedactionReport } from './types';
+
+interface SecretDetector {
+  kind: string;
+  pattern: RegExp;
+  /** Capture group holding the secret when the pattern also matches surrounding context. */
+  group?: number;
+  accept?: (value: string) => boolean;
+}
+
+export interface RedactedChange {
+  snapshot: ChangeSnapshot;
+  report: RedactionReport;
+}
+
+const MIN_ENTROPY_LENGTH = 24;
+const MIN_ENTROPY_BITS = 4.2;
+
+const SECRET_DETECTORS: SecretDetector[] = [
+  {
+    kind: 'PRIVATE_KEY',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----|$)/g
+  },
+  { kind: 'AWS_ACCESS_KEY', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|AIPA|ANPA|ANVA)[A-Z0-9]{16}\b/g },
+  {
+    kind: 'AWS_SECRET_KEY',
+    pattern: /(aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 2
+  },
+  { kind: 'API_KEY', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'GITHUB_TOKEN', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { kind: 'SLACK_TOKEN', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'GOOGLE_API_KEY', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'JWT', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'HIGH_ENTROPY',
+    pattern: new RegExp(`[A-Za-z0-9+_=-]{${MIN_ENTROPY_LENGTH},}`, 'g'),
+    accept: isHighEntropySecret
+  }
+];
+
+/**
+ * Redaction pass between collection and prompt building. Files on `redactionDenyPatterns` are
+ * dropped from the diff (listed by name only), and every detected secret in the remaining diffs is
+ * replaced by a placeholder that stays the same for the same value across files.
+ */
+export function redactSnapshot(snapshot: ChangeSnapshot, config: ExtensionConfig): RedactedChange {
+  const report: RedactionReport = { entries: [], deniedFiles: [], invalidPatterns: [] };
+  if (!config.redactSecrets) {
+    return { snapshot, report };
+  }
+
+  const isDenied = createPathMatcher(config.redactionDenyPatterns);
+  const detectors = [...compileUserPatterns(config.redactionPatterns, report), ...SECRET_DETECTORS];
+  const placeholders = new Map<string, string>();
+  const counters = new Map<string, number>();
+  const entries = new Map<string, RedactionEntry>();
+
+  const placeholderFor = (kind: string, value: string) => {
+    let placeholder = placeholders.get(value);
+    if (!placeholder) {
+      const index = (counters.get(kind) ?? 0) + 1;
+      counters.set(kind, index);
+      placeholder = `[REDACTED_${kind}_${index}]`;
+      placeholders.set(value, placeholder);
+    }
+    return placeholder;
+  };
+
+  const files: FileDiff[] = [];
+  const deniedFiles: ExcludedFile[] = [];
+
+  for (const file of snapshot.files) {
+    if (isDenied(file.path)) {
+      report.deniedFiles.push(file.path);
+      deniedFiles.push(describeDeniedFile(file.path, snapshot));
+      continue;
+    }
+
+    let diff = file.diff;
+    for (const detector of detectors) {
+      diff = diff.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const value = detector.group ? String(groups[detector.group - 1] ?? '') : match;
+        if (!value || value.startsWith('[REDACTED_') || (detector.accept && !detector.accept(value))) {
+          return match;
+        }
+
+        const placeholder = placeholderFor(detector.kind, value);
+        const key = `${file.path}\0${placeholder}`;
+        const entry = entries.get(key);
+        if (entry) {
+          entry.occurrences += 1;
+        } else {
+          entries.set(key, { file: file.path, kind: detector.kind, placeholder, preview: previewSecret(value), occurrences: 1 });
+        }
+
+        return detector.group ? match.replace(value, placeholder) : placeholder;
+      });
+    }
+
+    files.push(diff === file.diff ? file : { path: file.path, diff });
+  }
+
+  report.entries = [...entries.values()];
+  if (report.entries.length === 0 && deniedFiles.length === 0) {
+    return { snapshot, report };
+  }
+
+  return {
+    snapshot: {
+      ...snapshot,
+      ...mergeFileDiffs(files, config),
+      files,
+      excludedFiles: [...snapshot.excludedFiles, ...deniedFiles]
+    },
+    report
+  };
+}
+
+function compileUserPatterns(patterns: string[], report: RedactionReport): SecretDetector[] {
+  const detectors: SecretDetector[] = [];
+
+  for (const source of patterns) {
+    try {
+      detectors.push({ kind: 'CUSTOM', pattern: new RegExp(source, 'g') });
+    } catch {
+      report.invalidPatterns.push(source);
+    }
+  }
+
+  return detectors;
+}
+
+function describeDeniedFile(path: string, snapshot: ChangeSnapshot): ExcludedFile {
+  const file: ExcludedFile = { path, reason: 'denied' };
+
+  for (const change of snapshot.changes) {
+    if (change.path !== path) {
+      continue;
+    }
+    if (change.binary) {
+      file.binary = true;
+    } else if (change.added !== undefined) {
+      file.added = (file.added ?? 0) + change.added;
+      file.deleted = (file.deleted ?? 0) + (change.deleted ?? 0);
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Random tokens mix letters and digits and carry more than ~4.2 bits per character; hex digests
+ * (at most 4 bits) and long identifiers (no digits, lower entropy) stay untouched.
+ */
+function isHighEntropySecret(value: string): boolean {
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value) || /^[0-9a-f]+$/i.test(value)) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy > MIN_ENTROPY_BITS;
+}
+
+function previewSecret(value: string): string {
+  const firstLine = value.split('\n')[0];
+  const visible = firstLine.startsWith('-----BEGIN') ? firstLine : `${value.slice(0, 4)}…`;
+  return `${visible} (${value.length} chars)`;
+}
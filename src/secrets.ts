@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import { Provider } from './types';
+
+const CONFIG_ROOT = 'gitgathom';
+const SECRET_KEY_PREFIX = 'gitgathom.apiKey.';
+// Keys that belong to one profile or fallback entry rather than to a provider, stored as one JSON record.
+const SCOPED_SECRET_KEY = 'gitgathom.scopedApiKeys';
+
+// SecretStorage is async while readConfig is not, so keys are mirrored in memory and kept in sync.
+const cachedKeys = new Map<string, string>();
+let cachedScopedKeys: Record<string, string> = {};
+let secretStorage: vscode.SecretStorage | undefined;
+let knownProviders: readonly Provider[] = [];
+
+interface SettingsLevel {
+  cfg: vscode.WorkspaceConfiguration;
+  target: vscode.ConfigurationTarget;
+  read<T>(key: string): T | undefined;
+}
+
+export async function initializeSecretStorage(
+  context: vscode.ExtensionContext,
+  providers: readonly Provider[]
+): Promise<void> {
+  secretStorage = context.secrets;
+  knownProviders = providers;
+
+  context.subscriptions.push(
+    context.secrets.onDidChange(event => {
+      if (event.key === SCOPED_SECRET_KEY) {
+        void refreshScopedKeys().catch(() => undefined);
+      } else if (event.key.startsWith(SECRET_KEY_PREFIX)) {
+        void refreshCachedKey(event.key.slice(SECRET_KEY_PREFIX.length)).catch(() => undefined);
+      }
+    })
+  );
+
+  for (const provider of providers) {
+    await refreshCachedKey(provider);
+  }
+  await refreshScopedKeys();
+}
+
+/** Scope of the key that belongs to a named profile. */
+export function profileKeyScope(profileName: string): string {
+  return `profile:${profileName}`;
+}
+
+/** Scope of the key that belongs to a fallback entry, identified by its provider and base URL. */
+export function fallbackKeyScope(provider: Provider, baseUrl: string): string {
+  return `fallback:${provider}@${baseUrl.trim()}`;
+}
+
+export function getStoredApiKey(provider: Provider): string {
+  return cachedKeys.get(provider) ?? '';
+}
+
+export async function storeApiKey(provider: Provider, apiKey: string): Promise<void> {
+  const storage = requireSecretStorage();
+  const trimmed = apiKey.trim();
+  await storage.store(secretKey(provider), trimmed);
+  cachedKeys.set(provider, trimmed);
+}
+
+export function getScopedApiKey(scope: string): string {
+  return cachedScopedKeys[scope] ?? '';
+}
+
+export async function storeScopedApiKey(scope: string, apiKey: string): Promise<void> {
+  const storage = requireSecretStorage();
+  const next = { ...cachedScopedKeys, [scope]: apiKey.trim() };
+  await storage.store(SCOPED_SECRET_KEY, JSON.stringify(next));
+  cachedScopedKeys = next;
+}
+
+export async function clearStoredApiKeys(): Promise<number> {
+  const storage = requireSecretStorage();
+  let cleared = Object.keys(cachedScopedKeys).length;
+  await storage.delete(SCOPED_SECRET_KEY);
+  cachedScopedKeys = {};
+
+  for (const provider of knownProviders) {
+    if (await storage.get(secretKey(provider))) {
+      cleared += 1;
+    }
+    await storage.delete(secretKey(provider));
+    cachedKeys.delete(provider);
+  }
+
+  return cleared;
+}
+
+/**
+ * Moves plaintext API keys out of settings.json into SecretStorage, then removes them from the
+ * settings: `gitgathom.apiKey` at every level (keyed by the provider configured at the same level),
+ * and `apiKey` inside profiles and fallback entries (keyed by the profile or entry). A key is left
+ * in place when a different one is already stored for the same owner. Returns the number of keys
+ * that were migrated.
+ */
+export async function migratePlaintextApiKeys(): Promise<number> {
+  const effectiveProvider = vscode.workspace.getConfiguration(CONFIG_ROOT).get<Provider>('provider', 'openai');
+  let migrated = 0;
+
+  for (const level of readSettingsLevels()) {
+    const key = level.read<string>('apiKey')?.trim();
+    if (key) {
+      const owner = level.read<Provider>('provider') ?? effectiveProvider;
+      const stored = getStoredApiKey(owner);
+      // Never overwrite a different key the user already stored securely; leave that setting untouched.
+      if (!stored || stored === key) {
+        await storeApiKey(owner, key);
+        await level.cfg.update('apiKey', undefined, level.target);
+        migrated += 1;
+      }
+    }
+
+    migrated += await migrateProfileKeys(level);
+    migrated += await migrateFallbackKeys(level);
+  }
+
+  return migrated;
+}
+
+async function migrateProfileKeys(level: SettingsLevel): Promise<number> {
+  const profiles = level.read<Record<string, unknown>>('profiles');
+  if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+    return 0;
+  }
+
+  let migrated = 0;
+  const next: Record<string, unknown> = { ...profiles };
+  for (const [name, entry] of Object.entries(profiles)) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+
+    const { apiKey, ...rest } = entry;
+    if (typeof apiKey === 'string' && apiKey.trim() && (await storeUnlessConflicting(profileKeyScope(name), apiKey))) {
+      next[name] = rest;
+      migrated += 1;
+    }
+  }
+
+  if (migrated > 0) {
+    await level.cfg.update('profiles', next, level.target);
+  }
+  return migrated;
+}
+
+async function migrateFallbackKeys(level: SettingsLevel): Promise<number> {
+  const entries = level.read<unknown[]>('fallbackProviders');
+  if (!Array.isArray(entries)) {
+    return 0;
+  }
+
+  let migrated = 0;
+  const next: unknown[] = [];
+  for (const entry of entries) {
+    if (!isRecord(entry) || typeof entry.provider !== 'string') {
+      next.push(entry);
+      continue;
+    }
+
+    const { apiKey, ...rest } = entry;
+    const scope = fallbackKeyScope(entry.provider as Provider, typeof entry.baseUrl === 'string' ? entry.baseUrl : '');
+    if (typeof apiKey === 'string' && apiKey.trim() && (await storeUnlessConflicting(scope, apiKey))) {
+      next.push(rest);
+      migrated += 1;
+    } else {
+      next.push(entry);
+    }
+  }
+
+  if (migrated > 0) {
+    await level.cfg.update('fallbackProviders', next, level.target);
+  }
+  return migrated;
+}
+
+async function storeUnlessConflicting(scope: string, apiKey: string): Promise<boolean> {
+  const stored = getScopedApiKey(scope);
+  if (stored && stored !== apiKey.trim()) {
+    return false;
+  }
+
+  await storeScopedApiKey(scope, apiKey);
+  return true;
+}
+
+/**
+ * The settings levels that can hold plaintext keys, narrowest first. Folder settings only exist as a
+ * separate level in multi-root workspaces.
+ */
+function readSettingsLevels(): SettingsLevel[] {
+  const cfg = vscode.workspace.getConfiguration(CONFIG_ROOT);
+  const folderLevels = vscode.workspace.workspaceFile
+    ? (vscode.workspace.workspaceFolders ?? []).map((folder): SettingsLevel => {
+        const folderCfg = vscode.workspace.getConfiguration(CONFIG_ROOT, folder.uri);
+        return {
+          cfg: folderCfg,
+          target: vscode.ConfigurationTarget.WorkspaceFolder,
+          read: <T>(key: string) => folderCfg.inspect<T>(key)?.workspaceFolderValue
+        };
+      })
+    : [];
+
+  return [
+    ...folderLevels,
+    {
+      cfg,
+      target: vscode.ConfigurationTarget.Workspace,
+      read: <T>(key: string) => cfg.inspect<T>(key)?.workspaceValue
+    },
+    {
+      cfg,
+      target: vscode.ConfigurationTarget.Global,
+      read: <T>(key: string) => cfg.inspect<T>(key)?.globalValue
+    }
+  ];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+async function refreshCachedKey(provider: string): Promise<void> {
+  const value = (await secretStorage?.get(`${SECRET_KEY_PREFIX}${provider}`))?.trim();
+  if (value) {
+    cachedKeys.set(provider, value);
+  } else {
+    cachedKeys.delete(provider);
+  }
+}
+
+async function refreshScopedKeys(): Promise<void> {
+  const raw = await secretStorage?.get(SCOPED_SECRET_KEY);
+  try {
+    const parsed = raw ? (JSON.parse(raw) as unknown) : {};
+    cachedScopedKeys = isRecord(parsed)
+      ? Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+      : {};
+  } catch {
+    cachedScopedKeys = {};
+  }
+}
+
+function requireSecretStorage(): vscode.SecretStorage {
+  if (!secretStorage) {
+    throw new Error('Secret storage is not initialized.');
+  }
+  return secretStorage;
+}
+
+function secretKey(provider: Provider): string {
+  return `${SECRET_KEY_PREFIX}${provider}`;
+}
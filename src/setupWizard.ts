@@ -1,35 +1,44 @@
 import * as vscode from 'vscode';
-import { getDefaultModel, getSuggestedModels } from './config';
+import { isAzureDeploymentUrl, listOllamaModels } from './ai';
+import { getDefaultModel, getSuggestedModels, isProfileKey, readConfig, resolveBaseUrl } from './config';
 import { providerLabel, t } from './i18n';
+import { profileKeyScope, storeApiKey, storeScopedApiKey } from './secrets';
 import { Provider, UiLanguage } from './types';
 
 const CONFIG_ROOT = 'gitgathom';
-const PROVIDERS: Provider[] = ['openai', 'deepseek', 'gemini', 'kimi', 'glm', 'custom'];
+const OLLAMA_TAGS_TIMEOUT_MS = 3000;
+const PROVIDERS: Provider[] = ['openai', 'deepseek', 'gemini', 'kimi', 'glm', 'anthropic', 'ollama', 'azure', 'custom'];
 
+/**
+ * Walks through the connection settings. While a profile is active the answers are written into that
+ * profile, since settings outside it would be shadowed by the profile anyway.
+ */
 export async function openSetupWizard(currentLanguage: UiLanguage): Promise<boolean> {
+  const current = readConfig();
+  const save = (key: string, value: unknown) => updateWizardSetting(current.activeProfile, key, value);
+
   const language = await pickLanguage(currentLanguage);
   if (!language) {
     return false;
   }
 
-  await updateSetting('language', language);
+  await save('language', language);
 
-  const cfg = vscode.workspace.getConfiguration(CONFIG_ROOT);
-  const currentProvider = cfg.get<Provider>('provider', 'openai');
+  const currentProvider = current.provider;
   const provider = await pickProvider(language, currentProvider);
   if (!provider) {
     return false;
   }
 
-  await updateSetting('provider', provider);
+  await save('provider', provider);
 
-  const currentModel = cfg.get<string>('model', '').trim();
+  const currentModel = current.model;
   const model = await pickModel(language, provider, currentProvider, currentModel);
   if (model === undefined) {
     return false;
   }
 
-  await updateSetting('model', model.trim());
+  await save('model', model.trim());
 
   const apiKey = await vscode.window.showInputBox({
     prompt: t(language, 'wizardApiKeyPrompt'),
@@ -41,17 +50,19 @@ export async function openSetupWizard(currentLanguage: UiLanguage): Promise<bool
     return false;
   }
 
-  if (apiKey.trim()) {
-    await updateSetting('apiKey', apiKey.trim());
+  if (apiKey.trim() && current.activeProfile) {
+    await storeScopedApiKey(profileKeyScope(current.activeProfile), apiKey);
+  } else if (apiKey.trim()) {
+    await storeApiKey(provider, apiKey);
   }
 
-  const currentBaseUrl = cfg.get<string>('baseUrl', '').trim();
+  const currentBaseUrl = current.baseUrl;
   const baseUrl = await vscode.window.showInputBox({
     prompt: t(language, 'wizardBaseUrlPrompt'),
     placeHolder: t(language, 'wizardBaseUrlPlaceholder'),
     value: currentBaseUrl,
     validateInput: value => {
-      if (provider !== 'custom') {
+      if (provider !== 'custom' && provider !== 'azure') {
         return undefined;
       }
       return value.trim() ? undefined : t(language, 'wizardBaseUrlRequired');
@@ -61,10 +72,41 @@ export async function openSetupWizard(currentLanguage: UiLanguage): Promise<bool
     return false;
   }
 
-  await updateSetting('baseUrl', baseUrl.trim());
+  await save('baseUrl', baseUrl.trim());
+
+  // A deployment in the endpoint URL is used as is, the same as the setup check accepts it.
+  if (provider === 'azure' && !isAzureDeploymentUrl(baseUrl)) {
+    const deployment = await vscode.window.showInputBox({
+      prompt: t(language, 'wizardAzureDeploymentPrompt'),
+      placeHolder: t(language, 'wizardAzureDeploymentPlaceholder'),
+      value: current.azureDeployment,
+      ignoreFocusOut: true,
+      validateInput: value => (value.trim() ? undefined : t(language, 'wizardAzureDeploymentRequired'))
+    });
+    if (deployment === undefined) {
+      return false;
+    }
+
+    await save('azureDeployment', deployment.trim());
+  }
+
+  if (provider === 'azure') {
+    const apiVersion = await vscode.window.showInputBox({
+      prompt: t(language, 'wizardAzureApiVersionPrompt'),
+      placeHolder: t(language, 'wizardAzureApiVersionPlaceholder'),
+      value: current.azureApiVersion,
+      ignoreFocusOut: true,
+      validateInput: value => (value.trim() ? undefined : t(language, 'wizardAzureApiVersionRequired'))
+    });
+    if (apiVersion === undefined) {
+      return false;
+    }
+
+    await save('azureApiVersion', apiVersion.trim());
+  }
 
   if (provider === 'openai') {
-    const currentPath = cfg.get<string>('customRequestPath', '').trim();
+    const currentPath = current.customRequestPath;
     const suggestedPath = currentPath || '/chat/completions';
     const requestPath = await vscode.window.showInputBox({
       prompt: t(language, 'wizardPathPrompt'),
@@ -76,12 +118,12 @@ export async function openSetupWizard(currentLanguage: UiLanguage): Promise<bool
     }
 
     const normalizedPath = normalizeRequestPath(requestPath);
-    await updateSetting('customRequestPath', normalizedPath);
+    await save('customRequestPath', normalizedPath);
   } else {
-    await updateSetting('customRequestPath', '');
+    await save('customRequestPath', '');
   }
 
-  const currentHeaders = cfg.get<string>('extraHeaders', '{}').trim();
+  const currentHeaders = JSON.stringify(current.extraHeaders);
   const extraHeaders = await vscode.window.showInputBox({
     prompt: t(language, 'wizardHeadersPrompt'),
     placeHolder: t(language, 'wizardHeadersPlaceholder'),
@@ -92,7 +134,7 @@ export async function openSetupWizard(currentLanguage: UiLanguage): Promise<bool
     return false;
   }
 
-  await updateSetting('extraHeaders', extraHeaders.trim() || '{}');
+  await save('extraHeaders', extraHeaders.trim() || '{}');
 
   const clipboardPick = await vscode.window.showQuickPick(
     [
@@ -108,7 +150,7 @@ export async function openSetupWizard(currentLanguage: UiLanguage): Promise<bool
     return false;
   }
 
-  await updateSetting('copyToClipboard', clipboardPick.value);
+  await save('copyToClipboard', clipboardPick.value);
 
   return true;
 }
@@ -163,7 +205,7 @@ async function pickProvider(language: UiLanguage, currentProvider: Provider): Pr
   return picked?.value;
 }
 
-async function updateSetting(key: string, value: unknown): Promise<void> {
+export async function updateSetting(key: string, value: unknown): Promise<void> {
   const target = vscode.workspace.workspaceFolders?.length
     ? vscode.ConfigurationTarget.Workspace
     : vscode.ConfigurationTarget.Global;
@@ -171,6 +213,24 @@ async function updateSetting(key: string, value: unknown): Promise<void> {
   await vscode.workspace.getConfiguration(CONFIG_ROOT).update(key, value, target);
 }
 
+async function updateWizardSetting(profileName: string, key: string, value: unknown): Promise<void> {
+  if (!profileName || !isProfileKey(key)) {
+    await updateSetting(key, value);
+    return;
+  }
+
+  // Profiles are edited where they are defined: the workspace when it declares this one, else the user settings.
+  const cfg = vscode.workspace.getConfiguration(CONFIG_ROOT);
+  const inspected = cfg.inspect<Record<string, Record<string, unknown>>>('profiles');
+  const inWorkspace = Boolean(inspected?.workspaceValue?.[profileName]);
+  const profiles = (inWorkspace ? inspected?.workspaceValue : inspected?.globalValue) ?? {};
+  await cfg.update(
+    'profiles',
+    { ...profiles, [profileName]: { ...profiles[profileName], [key]: value } },
+    inWorkspace ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global
+  );
+}
+
 function normalizeRequestPath(value: string): string {
   const trimmed = value.trim();
   if (!trimmed) {
@@ -179,6 +239,13 @@ function normalizeRequestPath(value: string): string {
   return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
 }
 
+async function getInstalledOllamaModels(provider: Provider): Promise<string[]> {
+  // The provider setting was already saved, so readConfig resolves the Ollama base URL.
+  const baseUrl = resolveBaseUrl({ ...readConfig(), provider });
+  const installed = await listOllamaModels(baseUrl, OLLAMA_TAGS_TIMEOUT_MS);
+  return installed.length > 0 ? installed : getSuggestedModels(provider);
+}
+
 async function pickModel(
   language: UiLanguage,
   provider: Provider,
@@ -187,7 +254,8 @@ async function pickModel(
 ): Promise<string | undefined> {
   const defaultModel = getDefaultModel(provider);
   const initialModel = provider === currentProvider && currentModel ? currentModel : defaultModel;
-  const suggestedModels = getSuggestedModels(provider);
+  const suggestedModels =
+    provider === 'ollama' ? await getInstalledOllamaModels(provider) : getSuggestedModels(provider);
 
   // If we don't have suggestions (e.g. custom provider), fallback to free-form input.
   if (suggestedModels.length === 0) {
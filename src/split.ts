@@ -0,0 +1,117 @@
+import { AiRequestError, GenerateCommitOptions, normalizeCommitMessage, requestCompletion } from './ai';
+import { AiDebugSnapshot, ChangeSnapshot, CommitGroup, ExtensionConfig, PromptPayload } from './types';
+
+export interface SuggestedSplit {
+  groups: CommitGroup[];
+  /** Files the model left out; they are added to the last group. */
+  unassignedFiles: string[];
+  debug: AiDebugSnapshot;
+}
+
+interface RawCommitGroup {
+  message?: unknown;
+  files?: unknown;
+}
+
+/**
+ * Sends a commit split prompt (see `buildCommitSplitPrompt`) and checks the answer against the changed
+ * files: unknown paths are dropped, a file claimed twice stays in its first group, and files the
+ * model skipped are appended to the last group so nothing is left behind.
+ */
+export async function suggestCommitSplit(
+  prompt: PromptPayload,
+  snapshot: ChangeSnapshot,
+  config: ExtensionConfig,
+  options: GenerateCommitOptions = {}
+): Promise<SuggestedSplit> {
+  const { text, debug } = await requestCompletion(prompt, config, { signal: options.signal });
+  debug.extractedText = text;
+
+  const pathsByFile = new Map<string, string[]>();
+  for (const change of snapshot.changes) {
+    pathsByFile.set(change.path, change.oldPath ? [change.oldPath, change.path] : [change.path]);
+  }
+  for (const file of snapshot.excludedFiles) {
+    pathsByFile.set(file.path, [file.path]);
+  }
+  // Models sometimes answer with the old side of a rename.
+  const aliases = new Map(
+    snapshot.changes.filter(change => change.oldPath).map(change => [change.oldPath as string, change.path])
+  );
+
+  let rawGroups: RawCommitGroup[];
+  try {
+    rawGroups = parseCommitSplit(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    debug.error = message;
+    throw new AiRequestError(message, debug);
+  }
+
+  const assigned = new Set<string>();
+  const groups: CommitGroup[] = [];
+
+  for (const rawGroup of rawGroups) {
+    const files: string[] = [];
+    for (const entry of Array.isArray(rawGroup.files) ? rawGroup.files : []) {
+      const requested = typeof entry === 'string' ? entry.trim() : '';
+      const file = pathsByFile.has(requested) ? requested : aliases.get(requested);
+      if (file && !assigned.has(file)) {
+        assigned.add(file);
+        files.push(file);
+      }
+    }
+
+    const message = typeof rawGroup.message === 'string' ? normalizeGroupMessage(rawGroup.message, prompt, config) : '';
+    if (files.length > 0 && message) {
+      groups.push({ message, files, paths: files.flatMap(file => pathsByFile.get(file) ?? [file]) });
+    }
+  }
+
+  if (groups.length === 0) {
+    debug.error = 'The suggested split does not assign any changed file to a commit.';
+    throw new AiRequestError(debug.error, debug);
+  }
+
+  const unassignedFiles = [...pathsByFile.keys()].filter(file => !assigned.has(file));
+  const last = groups[groups.length - 1];
+  for (const file of unassignedFiles) {
+    last.files.push(file);
+    last.paths.push(...(pathsByFile.get(file) ?? [file]));
+  }
+
+  debug.normalizedCommitMessage = groups.map(group => group.message).join('\n\n---\n\n');
+  return { groups, unassignedFiles, debug };
+}
+
+function parseCommitSplit(text: string): RawCommitGroup[] {
+  const cleaned = text.replace(/```[a-zA-Z]*\s*/g, '');
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error('The suggested split is not valid JSON.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    throw new Error('The suggested split is not valid JSON.');
+  }
+
+  const commits = (parsed as { commits?: unknown }).commits;
+  if (!Array.isArray(commits)) {
+    throw new Error('The suggested split has no "commits" array.');
+  }
+
+  return commits.filter((commit): commit is RawCommitGroup => Boolean(commit) && typeof commit === 'object');
+}
+
+/** Applies the usual commit message normalization, keeping the model's text when it does not parse. */
+function normalizeGroupMessage(message: string, prompt: PromptPayload, config: ExtensionConfig): string {
+  try {
+    return normalizeCommitMessage(message, prompt, config);
+  } catch {
+    return message.trim();
+  }
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { CommitGroup, CommitSplitPlan } from './types';
+
+export const COMMIT_SPLIT_VIEW_ID = 'gitgathom.commitSplit';
+const HAS_PLAN_CONTEXT_KEY = 'gitgathom.hasCommitSplit';
+
+type CommitSplitNode =
+  | { kind: 'group'; index: number; group: CommitGroup }
+  | { kind: 'file'; path: string };
+
+/**
+ * Tree view in the Source Control container listing the suggested commits in order, each with its
+ * files. The view is only visible while a plan is pending.
+ */
+export class CommitSplitView implements vscode.TreeDataProvider<CommitSplitNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<CommitSplitNode | undefined>();
+  private plan: CommitSplitPlan | undefined;
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  get current(): CommitSplitPlan | undefined {
+    return this.plan;
+  }
+
+  async show(plan: CommitSplitPlan): Promise<void> {
+    this.plan = plan;
+    this.changeEmitter.fire(undefined);
+    await vscode.commands.executeCommand('setContext', HAS_PLAN_CONTEXT_KEY, true);
+    await vscode.commands.executeCommand(`${COMMIT_SPLIT_VIEW_ID}.focus`);
+  }
+
+  async clear(): Promise<void> {
+    this.plan = undefined;
+    this.changeEmitter.fire(undefined);
+    await vscode.commands.executeCommand('setContext', HAS_PLAN_CONTEXT_KEY, false);
+  }
+
+  getTreeItem(node: CommitSplitNode): vscode.TreeItem {
+    if (node.kind === 'file') {
+      const item = new vscode.TreeItem(node.path, vscode.TreeItemCollapsibleState.None);
+      if (this.plan) {
+        item.resourceUri = vscode.Uri.joinPath(vscode.Uri.file(this.plan.repositoryPath), node.path);
+      }
+      item.contextValue = 'commitSplitFile';
+      return item;
+    }
+
+    const [header, ...body] = node.group.message.split('\n');
+    const item = new vscode.TreeItem(`${node.index + 1}. ${header}`, vscode.TreeItemCollapsibleState.Expanded);
+    item.description = `${node.group.files.length} ${node.group.files.length === 1 ? 'file' : 'files'}`;
+    item.tooltip = [header, ...body].join('\n');
+    item.iconPath = new vscode.ThemeIcon('git-commit');
+    item.contextValue = 'commitSplitGroup';
+    return item;
+  }
+
+  getChildren(node?: CommitSplitNode): CommitSplitNode[] {
+    if (!this.plan) {
+      return [];
+    }
+
+    if (!node) {
+      return this.plan.groups.map((group, index) => ({ kind: 'group', index, group }));
+    }
+
+    return node.kind === 'group' ? node.group.files.map(path => ({ kind: 'file', path })) : [];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,113 @@
+import { AiRequestError, GenerateCommitOptions, requestCompletion } from './ai';
+import { trimUtf8 } from './git';
+import { buildChangeSummaryPrompt } from './prompt';
+import { ChangeSnapshot, ExtensionConfig, FileDiff, SummaryRequestDebug } from './types';
+
+export interface SummarizeOptions {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface SummarizedChange {
+  snapshot: ChangeSnapshot;
+  requests: SummaryRequestDebug[];
+}
+
+export function shouldSummarize(snapshot: ChangeSnapshot, config: ExtensionConfig): boolean {
+  return config.largeChangeMode && snapshot.files.length > 1 && snapshot.fullDiffBytes > config.largeChangeThresholdBytes;
+}
+
+/**
+ * Map step of large-change mode: packs per-file diffs into groups that each fit in `maxDiffBytes`,
+ * summarizes every group in its own request (up to `largeChangeConcurrency` at a time) and returns a
+ * snapshot whose `summaries` replace the raw diff in the final prompt.
+ */
+export async function summarizeLargeChange(
+  snapshot: ChangeSnapshot,
+  config: ExtensionConfig,
+  options: SummarizeOptions = {}
+): Promise<SummarizedChange> {
+  const groups = groupFiles(snapshot.files, config.maxDiffBytes);
+  const requests: SummaryRequestDebug[] = new Array(groups.length);
+  const summaries: string[] = new Array(groups.length);
+  const requestOptions: GenerateCommitOptions = { signal: options.signal };
+
+  let nextIndex = 0;
+  let completed = 0;
+  options.onProgress?.(completed, groups.length);
+
+  const worker = async () => {
+    while (nextIndex < groups.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+
+      const group = groups[index];
+      const files = group.map(file => file.path);
+      const prompt = buildChangeSummaryPrompt(group, config);
+
+      try {
+        const { text, debug } = await requestCompletion(prompt, config, requestOptions);
+        debug.extractedText = text;
+        requests[index] = { files, debug };
+        summaries[index] = text.trim();
+      } catch (error) {
+        if (error instanceof AiRequestError) {
+          requests[index] = { files, debug: error.debug };
+        }
+        throw error;
+      }
+
+      completed += 1;
+      options.onProgress?.(completed, groups.length);
+    }
+  };
+
+  const workerCount = Math.min(config.largeChangeConcurrency, groups.length);
+  try {
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  } catch (error) {
+    // Stop handing out groups so the remaining workers wind down after their current request.
+    nextIndex = groups.length;
+    if (error instanceof AiRequestError) {
+      error.debug.summaryRequests = requests.filter(Boolean);
+    }
+    throw error;
+  }
+
+  return {
+    snapshot: {
+      ...snapshot,
+      diff: '',
+      summaries,
+      wasTruncated: false
+    },
+    requests
+  };
+}
+
+function groupFiles(files: FileDiff[], maxGroupBytes: number): FileDiff[][] {
+  const groups: FileDiff[][] = [];
+  let current: FileDiff[] = [];
+  let currentBytes = 0;
+
+  for (const file of files) {
+    const trimmed = trimUtf8(file.diff, maxGroupBytes);
+    const entry: FileDiff = { path: file.path, diff: trimmed.text };
+    const bytes = Buffer.byteLength(entry.diff, 'utf8');
+
+    if (current.length > 0 && currentBytes + bytes > maxGroupBytes) {
+      groups.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+
+    current.push(entry);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+}
@@ -0,0 +1,107 @@
+import assert = require('node:assert/strict');
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, test } from 'node:test';
+import { generateCommitText, normalizeCommitMessage } from '../ai';
+import { CommitlintRules } from '../types';
+import { createConfig } from './fixtures';
+
+describe('generateCommitText', () => {
+  // Each request takes the next answer; `undefined` drops the connection instead.
+  const answers: Array<string | undefined> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      request.resume();
+      const answer = answers.shift();
+      if (answer === undefined) {
+        response.destroy();
+        return;
+      }
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify({ choices: [{ message: { content: answer } }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server.close());
+
+  const rules: CommitlintRules = { source: 'commitlint.config.js', typeEnum: ['feat', 'fix'] };
+  const generate = () =>
+    generateCommitText(
+      { systemPrompt: 'system', userPrompt: 'user', commitlint: rules },
+      createConfig({
+        provider: 'ollama',
+        baseUrl,
+        streamResponse: false,
+        retryMaxAttempts: 1,
+        messageFormat: 'conventional',
+        commitlintMaxRepairs: 2
+      })
+    );
+
+  test('repairs a message that fails commitlint', async () => {
+    answers.push('chore: bump deps', 'fix: bump vulnerable deps');
+
+    const result = await generate();
+    assert.equal(result.commitMessage, 'fix: bump vulnerable deps');
+    assert.equal(result.debug.commitlint?.repairs, 1);
+    assert.deepEqual(result.debug.commitlint?.violations, []);
+  });
+
+  test('keeps the message when a repair request fails', async () => {
+    answers.push('chore: bump deps', undefined);
+
+    const result = await generate();
+    assert.equal(result.commitMessage, 'chore: bump deps');
+    assert.equal(result.usedFallback, false);
+    assert.equal(result.debug.commitlint?.violations.length, 1);
+    assert.ok(result.debug.commitlint?.repairError);
+  });
+});
+
+describe('normalizeCommitMessage', () => {
+  const prompt = { systemPrompt: '', userPrompt: '' };
+  const plain = createConfig({ messageFormat: 'plain', ticketPlacement: 'none' });
+
+  test('keeps the first line as the subject of a plain message', () => {
+    const message = normalizeCommitMessage(
+      'Update setup docs\n\nNote: the API key now lives in secret storage.',
+      prompt,
+      plain
+    );
+    assert.equal(message, 'Update setup docs\n\nNote: the API key now lives in secret storage.');
+  });
+
+  test('keeps a colon in a plain subject', () => {
+    assert.equal(
+      normalizeCommitMessage('Fix parser: handle empty input', prompt, plain),
+      'Fix parser: handle empty input'
+    );
+    assert.equal(normalizeCommitMessage('Docs: update README', prompt, plain), 'Docs: update README');
+  });
+
+  test('does not split plain body lines at colons', () => {
+    const message = normalizeCommitMessage(
+      'Fix crash when the repository has no commits\n\nThe cause was an empty HEAD: rev-parse failed. See: issue tracker.',
+      prompt,
+      plain
+    );
+    assert.equal(
+      message,
+      'Fix crash when the repository has no commits\n\nThe cause was an empty HEAD: rev-parse failed. See: issue tracker.'
+    );
+  });
+
+  test('still picks the typed header for conventional messages', () => {
+    const message = normalizeCommitMessage(
+      'Here is the message:\nfix(git): handle empty repositories',
+      prompt,
+      createConfig({ messageFormat: 'conventional', ticketPlacement: 'none' })
+    );
+    assert.equal(message, 'fix(git): handle empty repositories');
+  });
+});
@@ -0,0 +1,60 @@
+import assert = require('node:assert/strict');
+import { describe, test } from 'node:test';
+import { estimateTokens, fitDiffToTokenBudget, splitDiffBlocks } from '../budget';
+
+const trackedDiff = [
+  '## app.py',
+  '# Staged diff',
+  'diff --git a/app.py b/app.py',
+  '--- a/app.py',
+  '+++ b/app.py',
+  '@@ -1,2 +1,2 @@',
+  '-# old comment',
+  '+# new comment',
+  '@@ -10,1 +10,1 @@',
+  '-print(1)',
+  '+print(2)'
+].join('\n');
+
+const untrackedLines = Array.from({ length: 40 }, (_, index) => `# heading ${index}\nvalue_${index} = ${index}`);
+const untrackedDiff = ['## notes.py', '# Untracked file content', ...untrackedLines].join('\n');
+
+describe('splitDiffBlocks', () => {
+  test('splits tracked diffs at sections and hunks', () => {
+    const blocks = splitDiffBlocks(trackedDiff);
+    assert.deepEqual(
+      blocks.map(block => block.split('\n')[0]),
+      ['## app.py', '# Staged diff', 'diff --git a/app.py b/app.py', '@@ -1,2 +1,2 @@', '@@ -10,1 +10,1 @@']
+    );
+  });
+
+  test('keeps untracked content with comment lines as one block', () => {
+    const blocks = splitDiffBlocks(untrackedDiff);
+    assert.equal(blocks.length, 2);
+    assert.ok(blocks[1].startsWith('# Untracked file content\n# heading 0'));
+    assert.ok(blocks[1].endsWith('value_39 = 39'));
+  });
+});
+
+describe('fitDiffToTokenBudget', () => {
+  test('trims untracked content at line boundaries instead of omitting the file', () => {
+    const budget = Math.floor(estimateTokens(untrackedDiff) / 2);
+    const fitted = fitDiffToTokenBudget([{ path: 'notes.py', diff: untrackedDiff }], budget);
+
+    assert.equal(fitted.truncated, true);
+    assert.deepEqual(fitted.omittedFiles, []);
+    const lines = fitted.text.split('\n');
+    assert.match(lines[lines.length - 1], /^\[\d+ more line\(s\) omitted to fit the model context\]$/);
+    assert.ok(untrackedDiff.startsWith(lines.slice(0, -1).join('\n') + '\n'));
+    assert.ok(estimateTokens(lines.slice(0, -1).join('\n')) <= budget);
+  });
+
+  test('keeps leading hunks of a tracked diff', () => {
+    const budget = estimateTokens(trackedDiff) - 5;
+    const fitted = fitDiffToTokenBudget([{ path: 'app.py', diff: trackedDiff }], budget);
+
+    assert.ok(fitted.text.includes('+# new comment'));
+    assert.ok(!fitted.text.includes('+print(2)'));
+    assert.ok(fitted.text.endsWith('[1 more hunk(s) omitted to fit the model context]'));
+  });
+});
@@ -0,0 +1,52 @@
+import assert = require('node:assert/strict');
+import { after, before, describe, test } from 'node:test';
+import { hasTypedHeader, lintCommitMessage, loadCommitlintRules } from '../commitlint';
+import { createFixtureRepository, FixtureRepository } from './fixtures';
+
+describe('commitlint', () => {
+  let repo: FixtureRepository;
+
+  before(() => {
+    repo = createFixtureRepository();
+    repo.write(
+      'commitlint.config.js',
+      "module.exports = { extends: ['@commitlint/config-conventional'], rules: { 'header-max-length': [2, 'always', 50] } };\n"
+    );
+  });
+
+  after(() => repo.remove());
+
+  test('knows which formats have a typed header', () => {
+    const template = '{type}({scope}): {subject}\n\n{body}';
+    assert.equal(hasTypedHeader({ messageFormat: 'gitmoji-conventional', messageTemplate: template }), true);
+    assert.equal(hasTypedHeader({ messageFormat: 'angular', messageTemplate: template }), true);
+    assert.equal(hasTypedHeader({ messageFormat: 'plain', messageTemplate: template }), false);
+    assert.equal(hasTypedHeader({ messageFormat: 'custom', messageTemplate: template }), true);
+    assert.equal(hasTypedHeader({ messageFormat: 'custom', messageTemplate: '{gitmoji} {type}: {subject}' }), true);
+    assert.equal(hasTypedHeader({ messageFormat: 'custom', messageTemplate: '{subject}\\n\\n{type}' }), false);
+    assert.equal(hasTypedHeader({ messageFormat: 'custom', messageTemplate: '[{type}] {subject}' }), false);
+  });
+
+  test('checks type, scope and subject for typed headers', async () => {
+    const rules = await loadCommitlintRules(repo.path);
+    assert.ok(rules);
+
+    assert.deepEqual(lintCommitMessage('feat(api): add paging', rules), []);
+    assert.deepEqual(lintCommitMessage('Add paging', rules), ['header must be formatted as "type(scope): subject"']);
+    assert.deepEqual(lintCommitMessage('feature: add paging.', rules), [
+      'type "feature" is not one of: build, chore, ci, docs, feat, fix, perf, refactor, revert, style, test',
+      'subject may not end with "."'
+    ]);
+  });
+
+  test('only checks length and full stop for headers without a type', async () => {
+    const rules = await loadCommitlintRules(repo.path, false);
+    assert.deepEqual(rules, { source: 'commitlint.config.js', typedHeader: false, headerMaxLength: 50, subjectFullStop: '.' });
+
+    assert.deepEqual(lintCommitMessage('Add paging to the order list\n\nNote: the API changed.', rules), []);
+    assert.deepEqual(lintCommitMessage('Add paging to the order list endpoint and the admin views.', rules), [
+      'header is 58 characters long; the maximum is 50',
+      'subject may not end with "."'
+    ]);
+  });
+});
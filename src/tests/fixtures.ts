@@ -0,0 +1,44 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { readConfig } from '../config';
+import { ExtensionConfig } from '../types';
+
+export interface FixtureRepository {
+  path: string;
+  git(...args: string[]): string;
+  write(filePath: string, content: string | Buffer): void;
+  remove(): void;
+}
+
+/** Creates an empty repository in the temp directory with a fixed identity and no global config. */
+export function createFixtureRepository(): FixtureRepository {
+  const path = mkdtempSync(join(tmpdir(), 'gitgathom-test-'));
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      cwd: path,
+      encoding: 'utf8',
+      env: { ...process.env, GIT_CONFIG_NOSYSTEM: '1', GIT_CONFIG_GLOBAL: '/dev/null' }
+    });
+
+  git('init', '--quiet', '--initial-branch=main');
+  git('config', 'user.name', 'Fixture');
+  git('config', 'user.email', 'fixture@example.com');
+  git('config', 'commit.gpgsign', 'false');
+
+  return {
+    path,
+    git,
+    write: (filePath, content) => {
+      mkdirSync(dirname(join(path, filePath)), { recursive: true });
+      writeFileSync(join(path, filePath), content);
+    },
+    remove: () => rmSync(path, { recursive: true, force: true })
+  };
+}
+
+/** The default settings with `overrides` applied. */
+export function createConfig(overrides: Partial<ExtensionConfig> = {}): ExtensionConfig {
+  return { ...readConfig(), ...overrides };
+}
@@ -0,0 +1,169 @@
+import assert = require('node:assert/strict');
+import childProcess = require('node:child_process');
+import { chmodSync } from 'node:fs';
+import { join } from 'node:path';
+import { after, before, describe, mock, test } from 'node:test';
+import { collectRepositoryChanges } from '../git';
+import { createConfig, createFixtureRepository, FixtureRepository } from './fixtures';
+
+describe('collectRepositoryChanges', () => {
+  describe('per-file sections', () => {
+    let repo: FixtureRepository;
+
+    before(() => {
+      repo = createFixtureRepository();
+      repo.write('plain.txt', 'plain base\n');
+      repo.write('with space.txt', 'space base\n');
+      repo.write('über.txt', 'umlaut base\n');
+      repo.write('quote"name.txt', 'quote base\n');
+      repo.write('a b/c.txt', 'nested base\n');
+      repo.write('old name.txt', 'rename base\nsecond line\nthird line\n');
+      repo.write('moved.txt', 'moved base\n');
+      repo.write('gone.txt', 'one\ntwo\n');
+      repo.write('image.bin', Buffer.from([0, 1, 2, 3]));
+      repo.git('add', '-A');
+      repo.git('commit', '--quiet', '-m', 'initial');
+
+      repo.write('plain.txt', 'plain staged\n');
+      repo.git('add', 'plain.txt');
+      repo.write('plain.txt', 'plain unstaged\n');
+      repo.write('with space.txt', 'space changed\n');
+      repo.write('über.txt', 'umlaut changed\n');
+      repo.write('quote"name.txt', 'quote changed\n');
+      chmodSync(join(repo.path, 'a b/c.txt'), 0o755);
+      repo.git('mv', 'old name.txt', 'new name.txt');
+      repo.write('new name.txt', 'rename base\nsecond line\nthird line changed\n');
+      repo.git('mv', 'moved.txt', 'renamed.txt');
+      repo.git('rm', '--quiet', 'gone.txt');
+      repo.write('image.bin', Buffer.from([0, 1, 2, 4]));
+      repo.write('untracked.txt', 'untracked content\n');
+      repo.git('add', 'new name.txt', 'image.bin');
+    });
+
+    after(() => repo.remove());
+
+    test('gives every file only its own patch', async () => {
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig());
+      const diffs = new Map(snapshot.files.map(file => [file.path, file.diff]));
+
+      assert.deepEqual([...diffs.keys()].sort(), [
+        'a b/c.txt',
+        'gone.txt',
+        'image.bin',
+        'new name.txt',
+        'plain.txt',
+        'quote"name.txt',
+        'renamed.txt',
+        'untracked.txt',
+        'with space.txt',
+        'über.txt'
+      ]);
+
+      const markers: Record<string, string> = {
+        'plain.txt': 'plain',
+        'with space.txt': 'space',
+        'über.txt': 'umlaut',
+        'quote"name.txt': 'quote',
+        'new name.txt': 'third line',
+        'untracked.txt': 'untracked content'
+      };
+      for (const [filePath, marker] of Object.entries(markers)) {
+        const diff = diffs.get(filePath) ?? '';
+        assert.ok(diff.startsWith(`## ${filePath}\n`), filePath);
+        assert.ok(diff.includes(marker), filePath);
+        for (const [otherPath, otherMarker] of Object.entries(markers)) {
+          if (otherPath !== filePath) {
+            assert.ok(!diff.includes(otherMarker), `${filePath} contains the patch of ${otherPath}`);
+          }
+        }
+      }
+    });
+
+    test('keeps the staged and unstaged sides apart', async () => {
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig());
+      const diff = snapshot.files.find(file => file.path === 'plain.txt')?.diff ?? '';
+
+      const [staged, unstaged] = diff.split('# Unstaged diff');
+      assert.match(staged, /# Staged diff\n[\s\S]*\+plain staged/);
+      assert.match(unstaged, /-plain staged\n\+plain unstaged/);
+    });
+
+    test('describes renames, deletions, mode and binary changes', async () => {
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig());
+      const diffs = new Map(snapshot.files.map(file => [file.path, file.diff]));
+
+      assert.match(diffs.get('renamed.txt') ?? '', /\[Renamed from moved\.txt without content changes\]/);
+      assert.match(diffs.get('gone.txt') ?? '', /\[Deleted file, 2 lines removed\]/);
+      assert.match(diffs.get('new name.txt') ?? '', /rename from old name\.txt\nrename to new name\.txt/);
+      assert.match(diffs.get('a b/c.txt') ?? '', /old mode 100644\nnew mode 100755/);
+      assert.match(diffs.get('image.bin') ?? '', /Binary files/);
+
+      const renamed = snapshot.changes.find(change => change.path === 'new name.txt');
+      assert.equal(renamed?.kind, 'renamed');
+      assert.equal(renamed?.oldPath, 'old name.txt');
+    });
+
+    test('lists status entries with unquoted paths', async () => {
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig());
+      const lines = snapshot.status.split('\n');
+
+      assert.ok(lines.includes('MM plain.txt'), snapshot.status);
+      assert.ok(lines.includes(' M with space.txt'), snapshot.status);
+      assert.ok(lines.includes(' M quote"name.txt'), snapshot.status);
+      assert.ok(lines.includes('R  old name.txt -> new name.txt'), snapshot.status);
+      assert.ok(lines.includes('?? untracked.txt'), snapshot.status);
+    });
+
+    test('only collects staged changes when includeOnlyStaged is set', async () => {
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig({ includeOnlyStaged: true }));
+      const paths = snapshot.files.map(file => file.path).sort();
+
+      assert.deepEqual(paths, ['gone.txt', 'image.bin', 'new name.txt', 'plain.txt', 'renamed.txt']);
+      assert.ok(!snapshot.diff.includes('plain unstaged'));
+    });
+  });
+
+  describe('benchmark', () => {
+    const FILE_COUNT = 300;
+    let repo: FixtureRepository;
+
+    before(() => {
+      repo = createFixtureRepository();
+      for (let index = 0; index < FILE_COUNT; index += 1) {
+        repo.write(`src/module-${index}.ts`, `export const value${index} = ${index};\n`);
+      }
+      repo.git('add', '-A');
+      repo.git('commit', '--quiet', '-m', 'initial');
+
+      for (let index = 0; index < FILE_COUNT; index += 1) {
+        repo.write(`src/module-${index}.ts`, `export const value${index} = ${index + 1};\n`);
+        if (index % 2 === 0) {
+          repo.git('add', `src/module-${index}.ts`);
+        }
+      }
+      for (let index = 0; index < FILE_COUNT / 10; index += 1) {
+        repo.write(`src/module-${index}.ts`, `export const value${index} = ${index + 2};\n`);
+      }
+    });
+
+    after(() => repo.remove());
+
+    test(`collects ${FILE_COUNT} changed files with a fixed number of git processes`, async t => {
+      const execFile = mock.method(childProcess, 'execFile');
+      t.after(() => execFile.mock.restore());
+
+      const startedAt = performance.now();
+      const snapshot = await collectRepositoryChanges(repo.path, createConfig({ maxChangedFiles: FILE_COUNT }));
+      const elapsedMs = performance.now() - startedAt;
+      t.diagnostic(`${FILE_COUNT} files in ${elapsedMs.toFixed(0)} ms with ${execFile.mock.callCount()} git processes`);
+
+      assert.equal(snapshot.files.length, FILE_COUNT);
+      for (const file of snapshot.files) {
+        const index = Number(file.path.match(/module-(\d+)/)?.[1]);
+        assert.ok(file.diff.includes(`+export const value${index} = `), file.path);
+        assert.ok(!file.diff.includes(`value${index + 1} =`), file.path);
+      }
+      assert.ok(execFile.mock.callCount() <= 12, `spawned ${execFile.mock.callCount()} git processes`);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import Module = require('node:module');
+
+/**
+ * Preloaded by `npm test` so modules that import `vscode` load outside the extension host. Every
+ * setting reads as its default; no other part of the API is available.
+ */
+const vscodeStub = {
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+  workspace: {
+    getConfiguration: () => ({
+      get: <T>(_key: string, fallback?: T) => fallback,
+      inspect: () => undefined,
+      update: async () => undefined
+    })
+  }
+};
+
+type ModuleLoader = (request: string, parent: unknown, isMain: boolean) => unknown;
+const loader = Module as unknown as { _load: ModuleLoader };
+const load = loader._load;
+
+loader._load = (request, parent, isMain) => (request === 'vscode' ? vscodeStub : load(request, parent, isMain));
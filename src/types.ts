@@ -1,42 +1,199 @@
-export type Provider = "openai" | "deepseek" | "gemini" | "kimi" | "glm" | "custom";
+export type Provider = "openai" | "deepseek" | "gemini" | "kimi" | "glm" | "anthropic" | "ollama" | "azure" | "custom";
 export type UiLanguage = "zh" | "en";
 
+export interface ProviderProfile {
+  provider: Provider;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  customRequestPath: string;
+  azureDeployment: string;
+  azureApiVersion: string;
+  extraHeaders: Record<string, string>;
+}
+
 export interface ExtensionConfig {
+  activeProfile: string;
   language: UiLanguage;
   provider: Provider;
   model: string;
   apiKey: string;
   baseUrl: string;
   customRequestPath: string;
+  azureDeployment: string;
+  azureApiVersion: string;
   extraHeaders: Record<string, string>;
+  fallbackProviders: ProviderProfile[];
   temperature: number;
   maxTokens: number | null;
+  ollamaContextLength: number;
   requestTimeoutMs: number;
+  streamResponse: boolean;
+  candidateCount: number;
+  retryMaxAttempts: number;
+  retryBaseDelayMs: number;
+  retryJitter: number;
   commandTimeoutMs: number;
   includeOnlyStaged: boolean;
   maxChangedFiles: number;
+  untrackedMaxFileBytes: number;
+  untrackedLargeFileMode: UntrackedLargeFileMode;
+  untrackedExcerptLines: number;
+  summarizeNewDirectories: boolean;
+  redactSecrets: boolean;
+  redactionPatterns: string[];
+  redactionDenyPatterns: string[];
+  previewBeforeSend: boolean;
+  excludePatterns: string[];
+  respectGitAttributes: boolean;
   truncateDiff: boolean;
   maxDiffBytes: number;
+  tokenBudget: boolean;
+  contextTokens: number;
+  maxPromptTokens: number;
+  largeChangeMode: boolean;
+  largeChangeThresholdBytes: number;
+  largeChangeConcurrency: number;
   systemPrompt: string;
   ruleTemplate: string;
   additionalRules: string;
+  historyExampleCount: number;
+  ticketPattern: string;
+  ticketPlacement: TicketPlacement;
+  commitlint: boolean;
+  commitlintMaxRepairs: number;
   detailedOutput: boolean;
+  messageFormat: MessageFormat;
+  /** Used when `messageFormat` is `custom`. */
+  messageTemplate: string;
   copyToClipboard: boolean;
+  confirmBeforeCommit: boolean;
+  commitSignOff: boolean;
   debugView: boolean;
 }
 
+export type UntrackedLargeFileMode = 'excerpt' | 'outline' | 'skip';
+
+export type TicketPlacement = 'none' | 'subject' | 'scope' | 'footer';
+
+export type MessageFormat = 'gitmoji-conventional' | 'conventional' | 'angular' | 'plain' | 'custom';
+
+export interface CommitlintCaseRule {
+  when: 'always' | 'never';
+  cases: string[];
+}
+
+export interface CommitlintRules {
+  /** Config file the rules were read from, relative to the repository root. */
+  source: string;
+  typeEnum?: string[];
+  scopeEnum?: string[];
+  headerMaxLength?: number;
+  typeCase?: CommitlintCaseRule;
+  scopeCase?: CommitlintCaseRule;
+  subjectCase?: CommitlintCaseRule;
+  /** Character the subject may not end with (`subject-full-stop`). */
+  subjectFullStop?: string;
+  /** `scope-empty: never`. */
+  scopeRequired?: boolean;
+  /** False for message formats without a `type(scope): subject` header; only length and full stop apply then. */
+  typedHeader?: boolean;
+}
+
+export interface CommitlintDebug {
+  source: string;
+  initialViolations: string[];
+  repairs: number;
+  /** Violations left after the last repair; empty when the message passes. */
+  violations: string[];
+  /** Why the last repair request failed, when it did. */
+  repairError?: string;
+}
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+export type ChangeKind = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed';
+
+export type ChangeArea = 'staged' | 'unstaged' | 'untracked';
+
+export interface FileChange {
+  path: string;
+  oldPath?: string;
+  kind: ChangeKind;
+  area: ChangeArea;
+  similarity?: number;
+  oldMode?: string;
+  newMode?: string;
+  submodule?: boolean;
+  added?: number;
+  deleted?: number;
+  binary?: boolean;
+}
+
+export interface NewDirectory {
+  path: string;
+  fileCount: number;
+}
+
+export type ExclusionReason = 'pattern' | 'generated' | 'no-diff' | 'denied';
+
+export interface ExcludedFile {
+  path: string;
+  reason: ExclusionReason;
+  added?: number;
+  deleted?: number;
+  binary?: boolean;
+}
+
 export interface ChangeSnapshot {
   status: string;
   diff: string;
+  files: FileDiff[];
+  changes: FileChange[];
+  newDirectories: NewDirectory[];
+  /** Recent commit messages used as style examples; empty unless `historyExampleCount` is set. */
+  historyExamples: string[];
+  /** Current branch; undefined on a detached HEAD. */
+  branch?: string;
+  /** Issue key matched by `ticketPattern` in the branch name. */
+  ticket?: string;
+  commitlint?: CommitlintRules;
+  excludedFiles: ExcludedFile[];
+  fullDiffBytes: number;
+  summaries?: string[];
   wasTruncated: boolean;
   wasFileLimited: boolean;
   totalChangedFiles: number;
   includedChangedFiles: number;
 }
 
+export interface PromptTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface PromptPayload {
   systemPrompt: string;
   userPrompt: string;
+  /** Conversation turns sent after `userPrompt`, e.g. a previous answer and a refinement request. */
+  followUpTurns?: PromptTurn[];
+  notes?: string[];
+  /** Issue key from the branch name, added to the normalized message according to `ticketPlacement`. */
+  ticket?: string;
+  /** Rules every generated message is checked against and repaired for. */
+  commitlint?: CommitlintRules;
+}
+
+export interface AiRequestAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  status?: number;
+  error?: string;
+  retryDelayMs?: number;
 }
 
 export interface AiDebugSnapshot {
@@ -46,15 +203,61 @@ export interface AiDebugSnapshot {
   endpoint: string;
   requestHeaders: Record<string, string>;
   requestBody: Record<string, unknown>;
+  attempts?: AiRequestAttempt[];
   responseStatus?: number;
   responseHeaders?: Record<string, string>;
   responseBody?: string;
+  streamed?: boolean;
+  streamChunkCount?: number;
   extractedText?: string;
   normalizedCommitMessage?: string;
   error?: string;
+  previousProviderAttempts?: AiDebugSnapshot[];
+  summaryRequests?: SummaryRequestDebug[];
+  redaction?: RedactionReport;
+  candidates?: string[];
+  commitlint?: CommitlintDebug;
+}
+
+export interface SummaryRequestDebug {
+  files: string[];
+  debug: AiDebugSnapshot;
 }
 
 export interface GenerateCommitResult {
   commitMessage: string;
+  candidates: string[];
+  provider: Provider;
+  model: string;
+  usedFallback: boolean;
   debug: AiDebugSnapshot;
 }
+
+export interface RedactionEntry {
+  file: string;
+  kind: string;
+  placeholder: string;
+  preview: string;
+  occurrences: number;
+}
+
+export interface RedactionReport {
+  entries: RedactionEntry[];
+  deniedFiles: string[];
+  invalidPatterns: string[];
+}
+
+export interface CommitGroup {
+  message: string;
+  /** Changed files as shown in the plan. */
+  files: string[];
+  /** Every path the commit touches, including rename sources. */
+  paths: string[];
+}
+
+export interface CommitSplitPlan {
+  repositoryPath: string;
+  groups: CommitGroup[];
+  /** Whether the working tree is staged before committing (`includeOnlyStaged` was off when suggested). */
+  stageAll: boolean;
+}
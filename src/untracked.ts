@@ -0,0 +1,163 @@
+import { promises as fs } from 'node:fs';
+import { extname } from 'node:path';
+import { ExtensionConfig, NewDirectory } from './types';
+
+// Outlines scan the whole file, so anything bigger falls back to an excerpt.
+const MAX_OUTLINE_BYTES = 2 * 1024 * 1024;
+const MAX_OUTLINE_LINES = 200;
+const MAX_OUTLINE_LINE_LENGTH = 200;
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '.py', '.go', '.rs', '.java', '.kt', '.kts', '.scala', '.swift', '.dart',
+  '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.rb', '.php', '.lua', '.sh'
+]);
+
+const OUTLINE_PATTERNS = [
+  /^\s*(import|from\s+\S+\s+import|#include|using|package|require|use)\b/,
+  /^\s*export\b/,
+  /^\s*(pub(\([^)]*\))?\s+)?(async\s+)?(def|fn|func|function|class|interface|type|enum|struct|trait|impl|module|namespace)\b/,
+  /^\s*((public|private|protected|internal|static|abstract|final|override)\s+)+[\w<>[\],\s]*\w+\s*\(/,
+  /^\s*(const|let|var)\s+\w+\s*=\s*(async\s*)?(\([^)]*\)|\w+)\s*=>/
+];
+
+/**
+ * Reads an untracked file for the prompt. Files up to `untrackedMaxFileBytes` are sent whole;
+ * larger ones are skipped, cut to head/tail lines, or (for source files) reduced to an outline
+ * of imports, exports and declarations, according to `untrackedLargeFileMode`.
+ */
+export async function readUntrackedFileContent(filePath: string, config: ExtensionConfig): Promise<string> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) {
+      return '[Skipped non-regular file]';
+    }
+
+    if (stat.size <= config.untrackedMaxFileBytes) {
+      const buffer = await fs.readFile(filePath);
+      if (looksBinary(buffer)) {
+        return '[Skipped binary file]';
+      }
+
+      const text = buffer.toString('utf8');
+      return text.trim() || '[Empty text file]';
+    }
+
+    if (config.untrackedLargeFileMode === 'skip') {
+      return `[Skipped large file: ${stat.size} bytes]`;
+    }
+
+    if (
+      config.untrackedLargeFileMode === 'outline' &&
+      SOURCE_EXTENSIONS.has(extname(filePath).toLowerCase()) &&
+      stat.size <= MAX_OUTLINE_BYTES
+    ) {
+      const buffer = await fs.readFile(filePath);
+      if (looksBinary(buffer)) {
+        return '[Skipped binary file]';
+      }
+
+      const outline = extractOutline(buffer.toString('utf8'), config.untrackedMaxFileBytes);
+      if (outline.lines.length > 0) {
+        return `[Outline of a ${stat.size}-byte file with ${outline.totalLines} lines]\n${outline.lines.join('\n')}`;
+      }
+    }
+
+    return await readExcerpt(filePath, stat.size, config);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `[Untracked file unavailable: ${reason}]`;
+  }
+}
+
+/**
+ * Counts the untracked files below each directory that git reports as entirely new
+ * (`git ls-files --others --directory` lists those as a single `dir/` entry).
+ */
+export function countNewDirectoryFiles(directories: string[], untrackedFiles: string[]): NewDirectory[] {
+  return directories
+    .filter(directory => directory.endsWith('/'))
+    .map(directory => ({
+      path: directory,
+      fileCount: untrackedFiles.filter(filePath => filePath.startsWith(directory)).length
+    }))
+    .filter(directory => directory.fileCount > 0);
+}
+
+export function looksBinary(buffer: Buffer): boolean {
+  if (buffer.length === 0) {
+    return false;
+  }
+
+  if (buffer.includes(0)) {
+    return true;
+  }
+
+  const sampleSize = Math.min(buffer.length, 1024);
+  let nonTextCount = 0;
+
+  for (let i = 0; i < sampleSize; i += 1) {
+    const byte = buffer[i];
+    const isControl = byte < 32 && byte !== 9 && byte !== 10 && byte !== 13;
+    if (isControl) {
+      nonTextCount += 1;
+    }
+  }
+
+  return nonTextCount / sampleSize > 0.1;
+}
+
+/** Reads only the first and last `untrackedExcerptLines` lines, never more than the size cap in total. */
+async function readExcerpt(filePath: string, size: number, config: ExtensionConfig): Promise<string> {
+  const chunkBytes = Math.floor(config.untrackedMaxFileBytes / 2);
+  const handle = await fs.open(filePath, 'r');
+
+  try {
+    const head = Buffer.alloc(chunkBytes);
+    const tail = Buffer.alloc(chunkBytes);
+    await handle.read(head, 0, chunkBytes, 0);
+    await handle.read(tail, 0, chunkBytes, size - chunkBytes);
+
+    if (looksBinary(head)) {
+      return '[Skipped binary file]';
+    }
+
+    // The chunks start and end mid-file, so the partial line at each cut is dropped.
+    const headLines = head.toString('utf8').split('\n').slice(0, -1).slice(0, config.untrackedExcerptLines);
+    const tailLines = tail
+      .toString('utf8')
+      .replace(/\n$/, '')
+      .split('\n')
+      .slice(1)
+      .slice(-config.untrackedExcerptLines);
+
+    return (
+      `[Excerpt of a ${size}-byte file: first ${headLines.length} and last ${tailLines.length} lines]\n` +
+      `${headLines.join('\n')}\n[...]\n${tailLines.join('\n')}`
+    );
+  } finally {
+    await handle.close();
+  }
+}
+
+function extractOutline(text: string, maxBytes: number): { lines: string[]; totalLines: number } {
+  const allLines = text.split('\n');
+  const lines: string[] = [];
+  let bytes = 0;
+
+  for (let i = 0; i < allLines.length && lines.length < MAX_OUTLINE_LINES; i += 1) {
+    const line = allLines[i].trimEnd();
+    if (!OUTLINE_PATTERNS.some(pattern => pattern.test(line))) {
+      continue;
+    }
+
+    const entry = `L${i + 1}: ${line.replace(/\s*\{$/, '').slice(0, MAX_OUTLINE_LINE_LENGTH)}`;
+    bytes += Buffer.byteLength(entry, 'utf8') + 1;
+    if (bytes > maxBytes) {
+      break;
+    }
+    lines.push(entry);
+  }
+
+  return { lines, totalLines: allLines.length };
+}